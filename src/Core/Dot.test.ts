@@ -0,0 +1,38 @@
+import {DotSyntaxError} from './Dot';
+import RunnableNFA, {IDefinition} from './RunnableNFA';
+
+const nfa = (definition: IDefinition) => new RunnableNFA().init(definition);
+
+describe('toDot() and fromDot()', () => {
+	it('round-trip an NFA with escaped names and symbols', () => {
+		const automaton = nfa({
+			accept: [1, 2],
+			n: 3,
+			names: ["q\"0\"", "a\\b", "with space, comma"],
+			transitions: [[[1, "a \" \\\\"], [2, "~"]], [[1, ", ␣"]], [[0, "\\t \\n"]]],
+		});
+		expect(new RunnableNFA().fromDot(automaton.toDot()).toDefinition()).toEqual(automaton.toDefinition());
+	});
+
+	it('reads a hand-written graph', () => {
+		const dot = [
+			"digraph {",
+			"  start [shape=point];",
+			"  start -> p;",
+			"  p [shape=doublecircle];",
+			"  p -> q [label=\"a, b\"];",
+			"  q -> p [label=\"ε\"];",
+			"}",
+		].join("\n");
+		expect(new RunnableNFA().fromDot(dot).toDefinition()).toEqual({
+			accept: [0],
+			n: 2,
+			names: ["p", "q"],
+			transitions: [[[1, "a b"]], [[0, "ε"]]],
+		});
+	});
+
+	it('rejects undirected graphs', () => {
+		expect(() => new RunnableNFA().fromDot("graph { p -- q; }")).toThrow(DotSyntaxError);
+	});
+});
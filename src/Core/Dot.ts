@@ -0,0 +1,312 @@
+import {List, Map, OrderedMap} from 'immutable';
+import {IDefinition} from './NFA';
+import SymbolGroup from './SymbolGroup';
+
+/**
+ * Reading automata from Graphviz DOT (see NFA.toDot() for writing them).
+ *
+ * The supported subset of DOT is a single digraph containing:
+ *     a -> b [label="x, y"]: transitions, labelled with symbol groups separated by commas (no label means ε)
+ *     a -> b -> c: chains of transitions
+ *     a [label="q0", shape=doublecircle]: states, named by their labels (or IDs) and accepting if doublecircle
+ *     node [...], edge [...]: default attributes for the nodes and edges which follow
+ *     start [shape=point]: nodes which are invisible or have no shape, whose only purpose is an arrow to the start state
+ *     rankdir=LR, graph [...]: graph attributes, which are ignored
+ * Multiple edges between the same states are merged. If there is no start arrow, the first state is the start state.
+ * In quoted strings, \" and \\ stand for a double quote and a backslash.
+ */
+
+type Attributes = Map<string, string>;
+
+interface IToken {
+	line: number,
+	quoted: boolean, // Whether the token is a quoted string (and thus always an ID)
+	value: string,
+};
+
+/**
+ * Error thrown when a DOT graph cannot be parsed.
+ */
+export class DotSyntaxError extends Error {
+	// The line of the graph on which the error occurred
+	line: number;
+
+	constructor(message: string, line: number) {
+		super(message + " (on line " + line + ")");
+		Object.setPrototypeOf(this, DotSyntaxError.prototype);
+		this.line = line;
+	}
+}
+
+// Shapes of nodes which are not drawn as states
+const _pseudoShapes = ["none", "plaintext", "plain", "point"];
+
+const _keywords = ["strict", "graph", "digraph", "node", "edge", "subgraph"];
+
+/**
+ * Split a DOT graph into tokens, skipping whitespace and comments.
+ */
+function tokenize(input: string): IToken[] {
+	const tokens = [] as IToken[];
+	const patterns = [
+		/^(\s+|\/\/.*|\/\*[\s\S]*?\*\/)/, // Whitespace and comments
+		/^#.*/, // Preprocessor lines (only at the start of a line)
+		/^"((?:\\[\s\S]|[^"\\])*)"/, // Quoted strings
+		/^([A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-?(?:\.\d+|\d+(?:\.\d*)?))/, // IDs and numerals
+		/^(->|--|[{}[\];,=:])/, // Punctuation
+	];
+	let line = 1;
+	let atLineStart = true;
+	mainLoop: while (input.length > 0) {
+		for (let i = 0; i < patterns.length; i++) {
+			const matches = input.match(patterns[i]);
+			if (!matches || (i === 1 && !atLineStart)) {
+				continue;
+			}
+			if (i >= 2) {
+				tokens.push({
+					line,
+					quoted: i === 2,
+					value: i === 2 ? matches[1].replace(/\\(["\\])/g, "$1") : matches[1],
+				});
+			}
+			const newlines = matches[0].split("\n").length - 1;
+			line += newlines;
+			atLineStart = i === 0 ? (newlines > 0 || atLineStart) : false;
+			input = input.substr(matches[0].length);
+			continue mainLoop;
+		}
+		if (input[0] === "<") {
+			throw new DotSyntaxError("HTML strings are not supported", line);
+		}
+		throw new DotSyntaxError("Unexpected \"" + input[0] + "\"", line);
+	}
+	return tokens;
+}
+
+/**
+ * Parser for the supported subset of DOT, collecting the nodes and edges of the graph.
+ */
+class Parser {
+	// The attributes of each node, in the order in which they first appear
+	_nodes: OrderedMap<string, Attributes>;
+	_edges: List<[string, string, Attributes, number]>; // Origin, target, attributes and line
+	_nodeDefaults: Attributes;
+	_edgeDefaults: Attributes;
+	_tokens: IToken[];
+	_pos: number;
+
+	constructor(input: string) {
+		this._nodes = OrderedMap();
+		this._edges = List();
+		this._nodeDefaults = Map();
+		this._edgeDefaults = Map();
+		this._tokens = tokenize(input);
+		this._pos = 0;
+	}
+
+	/**
+	 * Add a node (if it does not exist yet) with extra attributes.
+	 */
+	addNode(id: string, attributes: Attributes = Map()) {
+		this._nodes = this._nodes.set(id, this._nodes.get(id, this._nodeDefaults).merge(attributes));
+	}
+
+	/**
+	 * Throw an error unless the next token is the given punctuation, and skip it.
+	 */
+	expect(punctuation: string) {
+		const token = this.next();
+		if (token.quoted || token.value !== punctuation) {
+			throw new DotSyntaxError("Expected \"" + punctuation + "\" but found \"" + token.value + "\"", token.line);
+		}
+	}
+
+	/**
+	 * Whether the next token is the given punctuation or (case-insensitive) keyword.
+	 */
+	isNext(value: string): boolean {
+		const token = this._tokens[this._pos];
+		return token !== undefined && !token.quoted && token.value.toLowerCase() === value;
+	}
+
+	/**
+	 * Get the next token, throwing an error at the end of the input.
+	 */
+	next(): IToken {
+		const token = this._tokens[this._pos];
+		if (!token) {
+			const last = this._tokens[this._tokens.length - 1];
+			throw new DotSyntaxError("Unexpected end of graph", last ? last.line : 1);
+		}
+		this._pos++;
+		return token;
+	}
+
+	/**
+	 * Parse the whole graph.
+	 */
+	parse(): this {
+		if (this.isNext("strict")) {
+			this._pos++;
+		}
+		if (!this.isNext("digraph")) {
+			const token = this._tokens[this._pos];
+			throw new DotSyntaxError("Only digraphs are supported", token ? token.line : 1);
+		}
+		this._pos++;
+		if (!this.isNext("{")) {
+			this.parseID();
+		}
+		this.expect("{");
+		while (!this.isNext("}")) {
+			this.parseStatement();
+			if (this.isNext(";")) {
+				this._pos++;
+			}
+		}
+		this._pos++;
+		if (this._pos < this._tokens.length) {
+			throw new DotSyntaxError("Unexpected \"" + this._tokens[this._pos].value + "\" after the graph", this._tokens[this._pos].line);
+		}
+		return this;
+	}
+
+	/**
+	 * Parse any number of bracketed attribute lists.
+	 */
+	parseAttributes(): Attributes {
+		let attributes = Map<string, string>();
+		while (this.isNext("[")) {
+			this._pos++;
+			while (!this.isNext("]")) {
+				const name = this.parseID();
+				let value = "true";
+				if (this.isNext("=")) {
+					this._pos++;
+					value = this.parseID();
+				}
+				attributes = attributes.set(name.toLowerCase(), value);
+				if (this.isNext(",") || this.isNext(";")) {
+					this._pos++;
+				}
+			}
+			this._pos++;
+		}
+		return attributes;
+	}
+
+	/**
+	 * Parse an ID (which may be quoted).
+	 */
+	parseID(): string {
+		const token = this.next();
+		if (!token.quoted && (!/^[\w\u0080-\uffff.-]/.test(token.value) || token.value === "--" || token.value === "->")) {
+			throw new DotSyntaxError("Expected an ID but found \"" + token.value + "\"", token.line);
+		}
+		if (!token.quoted && _keywords.includes(token.value.toLowerCase())) {
+			throw new DotSyntaxError("Unexpected keyword \"" + token.value + "\"", token.line);
+		}
+		return token.value;
+	}
+
+	/**
+	 * Parse a node, edge or attribute statement.
+	 */
+	parseStatement() {
+		const token = this._tokens[this._pos];
+		if (this.isNext("subgraph") || this.isNext("{")) {
+			throw new DotSyntaxError("Subgraphs are not supported", token.line);
+		}
+		if (this.isNext("graph") || this.isNext("node") || this.isNext("edge")) {
+			this._pos++;
+			const attributes = this.parseAttributes();
+			if (token.value.toLowerCase() === 'node') {
+				this._nodeDefaults = this._nodeDefaults.merge(attributes);
+			} else if (token.value.toLowerCase() === 'edge') {
+				this._edgeDefaults = this._edgeDefaults.merge(attributes);
+			}
+			return;
+		}
+
+		const ids = [this.parseID()];
+		if (this.isNext("=")) {
+			// Graph attribute
+			this._pos++;
+			this.parseID();
+			return;
+		}
+		if (this.isNext(":")) {
+			throw new DotSyntaxError("Ports are not supported", token.line);
+		}
+		if (this.isNext("--")) {
+			throw new DotSyntaxError("Undirected edges are not supported", token.line);
+		}
+		while (this.isNext("->")) {
+			this._pos++;
+			ids.push(this.parseID());
+		}
+		const attributes = this.parseAttributes();
+		if (ids.length === 1) {
+			this.addNode(ids[0], attributes);
+			return;
+		}
+		for (const id of ids) {
+			this.addNode(id);
+		}
+		for (let i = 0; i + 1 < ids.length; i++) {
+			this._edges = this._edges.push([ids[i], ids[i + 1], this._edgeDefaults.merge(attributes), token.line]);
+		}
+	}
+}
+
+/**
+ * Build an NFA definition from a DOT graph in the supported subset (see above).
+ * @throws DotSyntaxError If the graph is invalid or uses unsupported features.
+ */
+export function dotToDefinition(dot: string): IDefinition {
+	const parser = new Parser(dot.normalize()).parse();
+
+	const isState = (attributes: Attributes) => (
+		!_pseudoShapes.includes(attributes.get("shape", "").toLowerCase())
+		&& !attributes.get("style", "").toLowerCase().includes("invis")
+	);
+	const states = parser._nodes.filter(isState).keySeq().toList();
+
+	// Find the start state, and merge the symbol groups of each pair of states
+	let start: string | undefined;
+	let transitions = Map<string, Map<string, SymbolGroup>>();
+	for (const [origin, target, attributes, line] of parser._edges) {
+		if (!isState(parser._nodes.get(target)!)) {
+			throw new DotSyntaxError("\"" + target + "\" is not a state, so cannot be the target of a transition", line);
+		}
+		if (!isState(parser._nodes.get(origin)!)) {
+			if (start !== undefined && start !== target) {
+				throw new DotSyntaxError("There can only be one start state", line);
+			}
+			start = target;
+			continue;
+		}
+		const symbols = new SymbolGroup(attributes.get("label", ""), ",\\s*");
+		transitions = transitions.updateIn([origin, target], (old) => symbols.merge(old));
+	}
+
+	// Order the states with the start state first
+	const order = start === undefined ? states : states.remove(states.indexOf(start)).unshift(start);
+	const ids = Map<string, number>(order.map((id, index) => [id, index] as [string, number]));
+
+	return {
+		accept: order
+			.map((id, index) => parser._nodes.get(id)!.get("shape", "").toLowerCase() === "doublecircle" ? index : -1)
+			.filter((index) => index >= 0)
+			.toArray(),
+		n: order.size,
+		names: order.map((id) => parser._nodes.get(id)!.get("label", id)).toArray(),
+		transitions: order.map((origin) => (
+			transitions.get(origin, Map<string, SymbolGroup>())
+				.map((symbols, target) => [ids.get(target)!, symbols.toString(" ", true)] as [number, string])
+				.valueSeq()
+				.toArray()
+		)).toArray(),
+	};
+}
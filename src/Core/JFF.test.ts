@@ -0,0 +1,28 @@
+import {escapeXML, JFFSyntaxError} from './JFF';
+import RunnableNFA, {IDefinition} from './RunnableNFA';
+
+const nfa = (definition: IDefinition) => new RunnableNFA().init(definition);
+
+describe('toJFF() and fromJFF()', () => {
+	it('round-trip an NFA with escaped names and symbols', () => {
+		const automaton = nfa({
+			accept: [1],
+			n: 3,
+			names: ["<q0>", "a & \"b\"", "tab\tand\nline"],
+			positions: [[10, 20], [30, 40], [50, 60]],
+			transitions: [[[1, "< > & \""], [2, "~"]], [[1, "\\t \\n \\r"]], [[0, "␣"]]],
+		});
+		expect(new RunnableNFA().fromJFF(automaton.toJFF()).toDefinition()).toEqual(automaton.toDefinition());
+	});
+
+	it('rejects other kinds of automata', () => {
+		const jff = "<structure><type>pda</type><automaton></automaton></structure>";
+		expect(() => new RunnableNFA().fromJFF(jff)).toThrow(JFFSyntaxError);
+	});
+});
+
+describe('escapeXML()', () => {
+	it('writes tabs and line breaks as character references', () => {
+		expect(escapeXML("a\tb\r\nc<\"&\">")).toBe("a&#9;b&#13;&#10;c&lt;&quot;&amp;&quot;&gt;");
+	});
+});
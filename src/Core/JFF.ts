@@ -0,0 +1,138 @@
+import {Map, Set} from 'immutable';
+import {IDefinition, Position} from './NFA';
+import SymbolGroup from './SymbolGroup';
+
+/**
+ * Reading finite automata from JFLAP's XML .jff format (see NFA.toJFF() for writing them).
+ *
+ * Only finite automata (<type>fa</type>) are supported, with:
+ *     <state id="0" name="q0">: states, optionally containing <x>, <y>, <initial/> and <final/>
+ *     <transition>: transitions containing <from> and <to> state IDs, and <read> with one symbol (or none for ε)
+ * The states and transitions may be inside an <automaton> element (as written by JFLAP 7) or directly in <structure>.
+ * Parallel transitions are merged into one symbol group. If no state is initial, the first state is the start state.
+ */
+
+/**
+ * Error thrown when a .jff file cannot be read.
+ */
+export class JFFSyntaxError extends Error {
+	constructor(message: string) {
+		super(message);
+		Object.setPrototypeOf(this, JFFSyntaxError.prototype);
+	}
+}
+
+/**
+ * Get the child elements of an element with the given tag name.
+ */
+function children(element: Element, tagName: string): Element[] {
+	return Array.from(element.children).filter((child) => child.tagName === tagName);
+}
+
+/**
+ * Get the text of an element's only child with the given tag name (undefined if there is none).
+ */
+function childText(element: Element, tagName: string): string | undefined {
+	const [child] = children(element, tagName);
+	return child ? child.textContent || "" : undefined;
+}
+
+const _xmlEscapes: {[char: string]: string} = {
+	"\t": "&#9;",
+	"\n": "&#10;",
+	"\r": "&#13;",
+	"\"": "&quot;",
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+};
+
+/**
+ * Escape a string for use in XML text or attributes. Tabs and line breaks are written as character references,
+ * since XML parsers would otherwise normalize them (to \n in text, and to spaces in attributes).
+ */
+export function escapeXML(value: string): string {
+	return value.replace(/[\t\n\r"&<>]/g, (c) => _xmlEscapes[c]);
+}
+
+/**
+ * Build an NFA definition from a JFLAP finite automaton.
+ * @throws JFFSyntaxError If the file is not valid XML or is not a supported finite automaton.
+ */
+export function jffToDefinition(jff: string): IDefinition {
+	const doc = new DOMParser().parseFromString(jff, "application/xml");
+	const structure = doc.documentElement;
+	if (doc.getElementsByTagName("parsererror").length > 0 || structure.tagName !== "structure") {
+		throw new JFFSyntaxError("This is not a JFLAP file.");
+	}
+	const type = (childText(structure, "type") || "fa").trim();
+	if (type !== "fa") {
+		throw new JFFSyntaxError("Only finite automata are supported, not \"" + type + "\".");
+	}
+	const automaton = children(structure, "automaton")[0] || structure;
+	if (children(automaton, "block").length > 0) {
+		throw new JFFSyntaxError("Building blocks are not supported.");
+	}
+
+	// Read the states, with the initial state first
+	let ids = [] as string[];
+	let names = Map<string, string>();
+	let positions = Map<string, Position>();
+	let accept = Set<string>();
+	let start: string | undefined;
+	for (const state of children(automaton, "state")) {
+		const id = state.getAttribute("id");
+		if (id === null || names.has(id)) {
+			throw new JFFSyntaxError(id === null ? "A state has no ID." : "There are two states with ID " + id + ".");
+		}
+		ids.push(id);
+		names = names.set(id, state.getAttribute("name") || "q" + id);
+		const x = Number(childText(state, "x"));
+		const y = Number(childText(state, "y"));
+		if (childText(state, "x") !== undefined && childText(state, "y") !== undefined && isFinite(x) && isFinite(y)) {
+			positions = positions.set(id, [x, y]);
+		}
+		if (childText(state, "initial") !== undefined) {
+			if (start !== undefined) {
+				throw new JFFSyntaxError("There can only be one initial state.");
+			}
+			start = id;
+		}
+		if (childText(state, "final") !== undefined) {
+			accept = accept.add(id);
+		}
+	}
+	if (start !== undefined) {
+		ids = [start, ...ids.filter((id) => id !== start)];
+	}
+
+	// Read the transitions, merging those between the same states
+	let transitions = Map<string, Map<string, Set<string>>>();
+	for (const transition of children(automaton, "transition")) {
+		const from = (childText(transition, "from") || "").trim();
+		const to = (childText(transition, "to") || "").trim();
+		const read = (childText(transition, "read") || "").normalize();
+		if (!names.has(from) || !names.has(to)) {
+			throw new JFFSyntaxError("A transition from " + (from || "?") + " to " + (to || "?") + " is not between two states.");
+		}
+		if ([...read].length > 1) {
+			throw new JFFSyntaxError("The transition from " + names.get(from) + " to " + names.get(to)
+				+ " reads \"" + read + "\", but only single symbols are supported.");
+		}
+		transitions = transitions.updateIn([from, to], Set<string>(), (symbols: Set<string>) => symbols.add(read));
+	}
+
+	const indices = Map<string, number>(ids.map((id, index) => [id, index] as [string, number]));
+	return {
+		accept: ids.map((id, index) => accept.has(id) ? index : -1).filter((index) => index >= 0),
+		n: ids.length,
+		names: ids.map((id) => names.get(id)!),
+		positions: ids.every((id) => positions.has(id)) ? ids.map((id) => positions.get(id)!) : undefined,
+		transitions: ids.map((origin) => (
+			transitions.get(origin, Map<string, Set<string>>())
+				.map((symbols, target) => [indices.get(target)!, new SymbolGroup(symbols).toString(" ", true)] as [number, string])
+				.valueSeq()
+				.toArray()
+		)),
+	};
+}
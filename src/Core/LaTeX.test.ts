@@ -0,0 +1,17 @@
+import {Set} from 'immutable';
+import {escapeLaTeX, symbolGroupToLaTeX} from './LaTeX';
+import SymbolGroup from './SymbolGroup';
+
+describe('escapeLaTeX()', () => {
+	it('escapes special characters and writes Greek letters in math mode', () => {
+		expect(escapeLaTeX("q_{1} & 50%")).toBe("q\\_\\{1\\} \\& 50\\%");
+		expect(escapeLaTeX("ΑΓαςο")).toBe("$\\mathrm{A}$$\\Gamma$$\\alpha$$\\varsigma$$o$");
+	});
+});
+
+describe('symbolGroupToLaTeX()', () => {
+	it('tells the empty symbol apart from a literal ε', () => {
+		expect(symbolGroupToLaTeX(new SymbolGroup("~"))).toBe("$\\varepsilon$");
+		expect(symbolGroupToLaTeX(new SymbolGroup(Set(["ε"])))).toBe("$\\epsilon$");
+	});
+});
@@ -0,0 +1,99 @@
+import SymbolGroup from './SymbolGroup';
+
+/**
+ * Writing names and symbols for LaTeX documents (see NFA.toTikZ()).
+ */
+
+// LaTeX for symbols which symbol groups write specially (see SymbolGroup's _toSpecial), in math mode
+const _specialSymbols: {[block: string]: string} = {
+	"\\\\": "$\\backslash$",
+	"\\f": "$\\backslash\\mathrm{f}$",
+	"\\n": "$\\backslash\\mathrm{n}$",
+	"\\r": "$\\backslash\\mathrm{r}$",
+	"\\t": "$\\backslash\\mathrm{t}$",
+	"\\v": "$\\backslash\\mathrm{v}$",
+	"~": "$\\varepsilon$",
+	"ε": "$\\varepsilon$",
+	"␣": "$\\sqcup$",
+};
+
+// Characters which have special meaning in LaTeX text
+const _escapes: {[char: string]: string} = {
+	"#": "\\#",
+	"$": "\\$",
+	"%": "\\%",
+	"&": "\\&",
+	"<": "\\textless{}",
+	">": "\\textgreater{}",
+	"\\": "\\textbackslash{}",
+	"^": "\\textasciicircum{}",
+	"_": "\\_",
+	"{": "\\{",
+	"|": "\\textbar{}",
+	"}": "\\}",
+	"~": "\\textasciitilde{}",
+};
+
+// Math mode for the Greek letters (in the allowed ranges Α-Ω and α-ω, in order), which pdflatex can't typeset as text.
+// Capitals which look like Latin ones are upright Latin letters, and U+03A2 is unassigned.
+// Note that ε is \epsilon, to tell it apart from the empty symbol.
+const _greekCapitals = [
+	"A", "B", "\\Gamma", "\\Delta", "E", "Z", "H", "\\Theta", "I", "K", "\\Lambda", "M", "N", "\\Xi", "O", "\\Pi", "P",
+	"", "\\Sigma", "T", "\\Upsilon", "\\Phi", "X", "\\Psi", "\\Omega",
+];
+const _greekSmall = [
+	"alpha", "beta", "gamma", "delta", "epsilon", "zeta", "eta", "theta", "iota", "kappa", "lambda", "mu", "nu", "xi", "o",
+	"pi", "rho", "varsigma", "sigma", "tau", "upsilon", "phi", "chi", "psi", "omega",
+];
+const _greek: {[char: string]: string} = {};
+_greekCapitals.forEach((command, index) => {
+	if (command) {
+		_greek[String.fromCharCode(0x391 + index)] = "$" + (command[0] === "\\" ? command : "\\mathrm{" + command + "}") + "$";
+	}
+});
+_greekSmall.forEach((name, index) => {
+	_greek[String.fromCharCode(0x3B1 + index)] = "$" + (name === "o" ? name : "\\" + name) + "$";
+});
+
+/**
+ * Escape text for use in a LaTeX document. Greek letters are written in math mode; Cyrillic letters are left as they
+ * are, so need a font encoding which has them (e.g. \usepackage[T2A,T1]{fontenc}).
+ */
+export function escapeLaTeX(text: string): string {
+	return text.replace(/[#$%&<>\\^_{|}~\u0391-\u03A9\u03B1-\u03C9]/g, (char) => _escapes[char] || _greek[char]);
+}
+
+/**
+ * Write a symbol group in LaTeX, in the same form as SymbolGroup.toString(", ", true) (including character ranges),
+ * but with ε (the empty symbol), other special symbols and Greek letters in math mode.
+ */
+export function symbolGroupToLaTeX(symbols: SymbolGroup): string {
+	const text = symbols.toString(", ", true);
+
+	// Split the text into blocks (symbols, backslash sequences and ranges) at unescaped delimiters
+	const blocks = [""];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === "\\") {
+			blocks[blocks.length - 1] += text.substr(i, 2);
+			i++;
+		} else if (text.startsWith(", ", i)) {
+			blocks.push("");
+			i++;
+		} else {
+			blocks[blocks.length - 1] += text[i];
+		}
+	}
+
+	return blocks.map((block) => {
+		if (_specialSymbols[block]) {
+			return _specialSymbols[block];
+		}
+		if (block[0] === "\\") {
+			return escapeLaTeX(block.substr(1));
+		}
+		if (block.length === 3 && block[1] === "-") {
+			return escapeLaTeX(block[0]) + "--" + escapeLaTeX(block[2]);
+		}
+		return escapeLaTeX(block);
+	}).join(", ");
+}
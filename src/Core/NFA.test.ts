@@ -0,0 +1,227 @@
+import {regexToDefinition} from './Regex';
+import RunnableNFA, {IDefinition} from './RunnableNFA';
+
+const nfa = (definition: IDefinition, mutable?: boolean) => new RunnableNFA().init(definition, mutable);
+
+/**
+ * All strings over the symbols up to a maximum length.
+ */
+function allStrings(symbols: string[], maxLength: number): string[] {
+	let strings = [""];
+	let current = [""];
+	for (let length = 1; length <= maxLength; length++) {
+		current = [].concat(...current.map((input) => symbols.map((symbol) => input + symbol) as never[]));
+		strings = strings.concat(current);
+	}
+	return strings;
+}
+
+// Exactly ab
+const ab = () => nfa({n: 3, accept: [2], transitions: [[[1, "a"]], [[2, "b"]], []]});
+// Contains ab (nondeterministic)
+const containsAB = () => nfa({n: 3, accept: [2], transitions: [[[0, "a b"], [1, "a"]], [[2, "b"]], [[2, "a b"]]]});
+// Even length
+const even = () => nfa({n: 2, accept: [0], transitions: [[[1, "a b"]], [[0, "a b"]]]});
+// a+, with empty transitions
+const epsilonLoop = () => nfa({n: 3, accept: [2], transitions: [[[1, "~"]], [[2, "a"]], [[0, "~"]]]});
+
+const machines = () => [ab(), containsAB(), even(), epsilonLoop()];
+
+/**
+ * A snapshot of an NFA's structure, for checking that it has not been changed.
+ */
+function structure(automaton: RunnableNFA) {
+	return JSON.stringify([automaton.numStates, automaton.toDefinition(), automaton.hasSetAlphabet]);
+}
+
+describe('determinize()', () => {
+	it('gives a DFA which accepts the same strings', () => {
+		for (const automaton of machines()) {
+			const dfa = automaton.determinize();
+			expect(dfa.isDFA).toBe(true);
+			for (const input of allStrings(["a", "b"], 6)) {
+				expect(dfa.accepts(input)).toBe(automaton.accepts(input));
+			}
+		}
+	});
+
+	it('names each state after its subset', () => {
+		const dfa = containsAB().determinize();
+		expect(dfa.toDefinition().names).toEqual(["{0}", "{0, 1}", "{0, 2}", "{0, 1, 2}"]);
+	});
+});
+
+describe('minimize()', () => {
+	it('gives a DFA which accepts the same strings', () => {
+		for (const automaton of machines()) {
+			const minimal = automaton.minimize();
+			expect(minimal.isDFA).toBe(true);
+			for (const input of allStrings(["a", "b"], 6)) {
+				expect(minimal.accepts(input)).toBe(automaton.accepts(input));
+			}
+		}
+	});
+
+	it('merges equivalent states', () => {
+		expect(containsAB().minimize().numStates).toBe(3);
+		// ab needs a reject state to be complete
+		expect(ab().minimize().numStates).toBe(4);
+		const redundant = nfa({n: 3, accept: [1, 2], transitions: [[[1, "a"], [2, "b"]], [[1, "a b"]], [[2, "a b"]]]});
+		const [minimal, replaced] = redundant.minimization();
+		expect(minimal.numStates).toBe(2);
+		expect(replaced.map((states) => states.size).toList().sort().toArray()).toEqual([1, 2]);
+	});
+});
+
+describe('complete()', () => {
+	it('keeps a DFA a DFA, with every state transitioning on every symbol', () => {
+		const complete = ab().complete();
+		expect(complete.isDFA).toBe(true);
+		for (const state of complete.states) {
+			expect(complete.symbolsFrom(state).toString(" ", false)).toBe("a b");
+		}
+		for (const input of allStrings(["a", "b"], 4)) {
+			expect(complete.accepts(input)).toBe(input === "ab");
+		}
+	});
+
+	it('adds a reject state which loops on every symbol', () => {
+		const complete = ab().complete();
+		expect(complete.numStates).toBe(4);
+		const reject = complete.states.find((state) => complete.name(state) === "Reject")!;
+		expect(complete.symbols(reject, reject).toString(" ", false)).toBe("a b");
+	});
+
+	it('merges the missing symbols into an existing transition to a nongenerating state', () => {
+		const automaton = nfa({n: 3, accept: [1], transitions: [[[1, "a"], [2, "b"]], [[2, "a"]], []]});
+		const complete = automaton.complete();
+		const [start, accept, reject] = complete.toDefinition().transitions!;
+		expect(complete.numStates).toBe(3);
+		expect(complete.isDFA).toBe(true);
+		expect([start, accept, reject]).toEqual([[[1, "a"], [2, "b"]], [[2, "a b"]], [[2, "a b"]]]);
+	});
+
+	it('does not count ε as a missing symbol', () => {
+		const complete = epsilonLoop().complete();
+		const numEmpty = complete.states.reduce((total, state) => (
+			total + complete.transitionsFrom(state).count((symbols) => symbols.has(""))
+		), 0);
+		expect(numEmpty).toBe(2);
+	});
+
+	it('leaves a complete NFA unchanged', () => {
+		const automaton = even();
+		expect(automaton.complete()).toBe(automaton);
+	});
+});
+
+describe('boolean operations', () => {
+	it('accept the right strings', () => {
+		const [a, b] = [containsAB(), even()];
+		for (const input of allStrings(["a", "b"], 6)) {
+			expect(a.complement().accepts(input)).toBe(!a.accepts(input));
+			expect(a.union(b).accepts(input)).toBe(a.accepts(input) || b.accepts(input));
+			expect(a.intersect(epsilonLoop()).accepts(input)).toBe(a.accepts(input) && epsilonLoop().accepts(input));
+			expect(a.difference(b).accepts(input)).toBe(a.accepts(input) && !b.accepts(input));
+			expect(a.xor(b).accepts(input)).toBe(a.accepts(input) !== b.accepts(input));
+		}
+	});
+
+	it('do not change their operands', () => {
+		for (const operation of ['union', 'intersect', 'difference', 'xor'] as const) {
+			const a = ab();
+			const b = nfa({n: 2, accept: [1], transitions: [[[1, "b"]], []]}, true); // A mutable, incomplete DFA
+			const before = structure(b);
+			const result = a[operation](b);
+			expect(structure(b)).toBe(before);
+			expect(b.accepts("b")).toBe(true);
+			expect(result).not.toBe(a);
+		}
+	});
+
+	it('do not write into the collections of a mutable NFA through its copies', () => {
+		const original = nfa({n: 2, accept: [1], transitions: [[[1, "a"]], []]}, true);
+		const before = structure(original);
+		original.mutableCopy(false).complement();
+		original.mutableCopy(false).union(ab());
+		expect(structure(original)).toBe(before);
+	});
+});
+
+describe('regular operations', () => {
+	it('accept the right strings', () => {
+		const test = (automaton: RunnableNFA, regex: string) => {
+			for (const input of allStrings(["a", "b"], 6)) {
+				expect([regex, input, automaton.accepts(input)]).toEqual([regex, input, new RegExp("^(" + regex + ")$").test(input)]);
+			}
+		};
+		test(ab().concat(ab()), "abab");
+		test(ab().star(), "(ab)*");
+		test(ab().plus(), "(ab)+");
+		test(ab().optional(), "(ab)?");
+		test(ab().concat(nfa({n: 2, accept: [0, 1], transitions: [[[1, "b"]], []]})).reverse(), "b?ba");
+	});
+
+	it('can be run when they add cycles of empty transitions', () => {
+		// The start state already accepts, so plus() and star() give it an empty transition to itself
+		expect(even().plus().accepts("ab")).toBe(true);
+		expect(even().star().star().accepts("a")).toBe(false);
+		expect(epsilonLoop().star().accepts("aa")).toBe(true);
+	});
+});
+
+describe('removeEpsilon()', () => {
+	it('keeps the language', () => {
+		for (const automaton of [epsilonLoop(), ab().star().concat(containsAB())]) {
+			const removed = automaton.removeEpsilon();
+			expect(removed.hasEmptyTransitions).toBe(false);
+			for (const input of allStrings(["a", "b"], 6)) {
+				expect(removed.accepts(input)).toBe(automaton.accepts(input));
+				expect(removed.trim().accepts(input)).toBe(automaton.accepts(input));
+			}
+		}
+	});
+});
+
+describe('equivalentTo()', () => {
+	it('finds the shortest distinguishing string', () => {
+		expect(containsAB().equivalentTo(containsAB().minimize())).toBe(true);
+		expect(ab().equivalentTo(ab().star())).toBe("");
+		expect(ab().star().equivalentTo(ab().plus().optional())).toBe(true);
+		expect(ab().equivalentTo(nfa({n: 3, accept: [2], transitions: [[[1, "a"]], [[2, "b c"]], []]}))).toBe("ac");
+		for (const automaton of machines()) {
+			expect(automaton.determinize().equivalentTo(automaton)).toBe(true);
+			expect(automaton.minimize().equivalentTo(automaton)).toBe(true);
+		}
+	});
+});
+
+describe('isSubsetOf(), isEmpty() and isUniversal()', () => {
+	it('find the shortest witness', () => {
+		expect(ab().isSubsetOf(containsAB())).toBe(true);
+		expect(containsAB().isSubsetOf(ab())).toBe("aab");
+		expect(ab().isEmpty()).toBe("ab");
+		expect(ab().intersect(even().complement()).isEmpty()).toBe(true);
+		expect(containsAB().union(containsAB().complement()).isUniversal()).toBe(true);
+		expect(nfa({n: 1, accept: [0], alphabet: "a b", transitions: [[[0, "a"]]]}).isUniversal()).toBe("b");
+	});
+});
+
+describe('countByLength() and languageSize()', () => {
+	it('count exactly', () => {
+		const letters = nfa(regexToDefinition("[a-z]*"));
+		expect(letters.countByLength(10)[10]).toBe(141167095653376);
+		expect(letters.languageSize()).toBe(Infinity);
+		expect(nfa(regexToDefinition("[a-z][0-9]")).countByLength(2)).toEqual([0, 0, 260]);
+	});
+
+	it('agree with the accepted strings', () => {
+		for (const automaton of [...machines(), nfa(regexToDefinition("(a|ab|ba)(b|ε)"))]) {
+			const accepted = allStrings(["a", "b"], 6).filter((input) => automaton.accepts(input));
+			expect(automaton.countByLength(6))
+				.toEqual([0, 1, 2, 3, 4, 5, 6].map((length) => accepted.filter((input) => input.length === length).length));
+		}
+		expect(nfa(regexToDefinition("(a|ab|ba)(b|ε)")).languageSize()).toBe(5);
+		expect(ab().languageSize()).toBe(1);
+	});
+});
@@ -1,5 +1,11 @@
-import {Map, Set} from 'immutable';
-import SymbolGroup, {SymbolGroupInput} from './SymbolGroup';
+import {List, Map, Set} from 'immutable';
+import {shareAny} from '../Util/sets';
+import {dotToDefinition} from './Dot';
+import {escapeXML, jffToDefinition} from './JFF';
+import {escapeLaTeX, symbolGroupToLaTeX} from './LaTeX';
+import {Regex, makeConcat, makeStar, makeSymbols, makeUnion, regexToString} from './Regex';
+import SymbolGroup, {SymbolGroupInput, escapeString} from './SymbolGroup';
+import {TableFormat, stateLabel, tableToDefinition, targetsCell, writeTable} from './Table';
 
 /**
  * If mutable = true, update functions will directly modify the NFA and its elements (and theirs)
@@ -18,16 +24,28 @@ import SymbolGroup, {SymbolGroupInput} from './SymbolGroup';
  */
 
 export type State = number;
+export type Position = [number, number]; // The coordinates at which a state is drawn
 export interface IDefinition {
 	accept?: number[],
 	alphabet?: string,
 	n: number,
 	names?: string[],
+	positions?: Position[],
 	transitions?: Array<Array<[number, string]>>,
 };
 export type TransitionGroup = Map<State, SymbolGroup>;
 export type TransitionMap = Map<State, TransitionGroup>;
 
+// Heuristics for the order in which to eliminate states when converting to a regex:
+// in the order of the NFA's states, fewest incoming times outgoing transitions first,
+// or smallest resulting expressions first.
+export type EliminationOrder = 'states' | 'degree' | 'size';
+export interface IEliminationStep {
+	edges: Array<[string, string, string]>, // The remaining edges after the step, as [origin, target, regex]
+	name: string, // The name of the eliminated state
+	state: State, // The eliminated state
+};
+
 export {SymbolGroup};
 
 export default class NFA {
@@ -37,12 +55,15 @@ export default class NFA {
 	protected _states: Set<State>;
 	protected _start: State;
 	protected _names: Map<State, string>;
+	protected _positions: Map<State, Position>; // Only for states which have been given a position
 	protected _accept: Set<State>;
 	protected _transitions: TransitionMap;
 	protected _mutable: boolean;
 
 	// Automatically generated
 	protected _cache: {
+		complement?: NFA,
+		equivalentDFA?: NFA,
 		generatingStates?: Set<State>,
 		isDFA?: boolean,
 		minimalAlphabet?: SymbolGroup,
@@ -82,6 +103,7 @@ export default class NFA {
 		this._mutable = true;
 		this._states = Set<State>().asMutable();
 		this._names = Map<State, string>().asMutable();
+		this._positions = Map<State, Position>().asMutable();
 		this._accept = Set<State>().asMutable();
 		this._transitions = Map().asMutable() as TransitionMap;
 		this._cache = {};
@@ -111,6 +133,16 @@ export default class NFA {
 			}
 		}
 
+		// Parse positions
+		if (definition.positions) {
+			definition.positions.forEach((position, id) => {
+				const state = idMap[id];
+				if (state && position) {
+					this._positions.set(state, [Number(position[0]), Number(position[1])]);
+				}
+			});
+		}
+
 		// Parse transitions
 		if (definition.transitions) {
 			let originID = 0;
@@ -150,6 +182,119 @@ export default class NFA {
 		return this;
 	}
 
+	/**
+	 * Add copies of all of another NFA's states and transitions (but not its start or accept states) to this NFA,
+	 * which must be mutable. Copies whose names are already in use get primes appended to them.
+	 * @returns A map from the other NFA's states to their copies.
+	 */
+	protected _addCopyOf(other: NFA): Map<State, State> {
+		const ids = Map<State, State>().asMutable();
+		for (const state of other._states) {
+			ids.set(state, NFA.nextID);
+			this.addState(this._uniqueName(other.name(state)));
+		}
+		for (const [origin, transitions] of other._transitions) {
+			for (const [target, symbols] of transitions) {
+				this.setTransition(ids.get(origin)!, ids.get(target)!, symbols);
+			}
+		}
+		if (other.hasSetAlphabet) {
+			this._alphabet = this.alphabet.merge(other.alphabet);
+		}
+		return ids.asImmutable();
+	}
+
+	/**
+	 * Add ε to the symbols of the transition from one state to another (creating it if necessary).
+	 * The NFA must be mutable.
+	 */
+	protected _addEmptyTransition(origin: State, target: State): void {
+		this.setTransition(origin, target, this.symbols(origin, target).merge("ε"));
+	}
+
+	/**
+	 * Get the symbols of the alphabet as an array, excluding ε.
+	 */
+	protected _alphabetSymbols(): string[] {
+		return [...this.alphabet].filter((symbol) => symbol !== "");
+	}
+
+	/**
+	 * Finish a transform which has built an entirely new NFA (using _blank()).
+	 * If this NFA is mutable, it takes on the structure of the new one and is returned;
+	 * otherwise, the new NFA is made immutable and returned.
+	 */
+	protected _become(nfa: this): this {
+		if (!this._mutable) {
+			nfa._cache = {};
+			return nfa.immutable();
+		}
+		this._alphabet = nfa._alphabet;
+		this._states = nfa._states;
+		this._start = nfa._start;
+		this._names = nfa._names;
+		this._positions = nfa._positions;
+		this._accept = nfa._accept;
+		this._transitions = nfa._transitions;
+		this._cache = {};
+		return this;
+	}
+
+	/**
+	 * Create a new, mutable NFA of the same class with no states.
+	 */
+	protected _blank(): this {
+		return new (this.constructor as any)().init({n: 0}, true);
+	}
+
+	/**
+	 * Find the shortest string (first in shortlex order) for which the given condition holds, by a BFS over
+	 * pairs of sets of current states of this NFA and another (i.e., both are determinized on the fly).
+	 * The strings are over the combination of the two alphabets.
+	 * @param other The other NFA (which may be this NFA itself, if the condition only concerns this one).
+	 * @param condition Whether a string is a witness, given whether this NFA and the other accept it.
+	 * @returns The witness string, or null if there is none.
+	 */
+	protected _findWitness(other: NFA, condition: (a: boolean, b: boolean) => boolean): string | null {
+		const alphabet = [...this.alphabet.merge(other.alphabet).subtract("")];
+		const start: [Set<State>, Set<State>] = [this.closure([this._start]), other.closure([other._start])];
+		// The pairs are visited by value, so they are keyed as Lists
+		const visited = Set<List<Set<State>>>().asMutable().add(List(start));
+		const queue: Array<[[Set<State>, Set<State>], string]> = [[start, ""]];
+
+		while (queue.length > 0) {
+			const [[a, b], input] = queue.shift()!;
+			if (condition(shareAny([a, this._accept]), shareAny([b, other._accept]))) {
+				return input;
+			}
+			for (const symbol of alphabet) {
+				const next: [Set<State>, Set<State>] = [
+					this.closure(this.targets(a, symbol)),
+					other.closure(other.targets(b, symbol)),
+				];
+				const key = List(next);
+				if (!visited.has(key)) {
+					visited.add(key);
+					queue.push([next, input + symbol]);
+				}
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Get an equivalent DFA (this NFA itself if it is already one), which must not be modified.
+	 */
+	protected _equivalentDFA(): NFA {
+		if (this.isDFA) {
+			return this;
+		}
+		if (!this._cache.equivalentDFA) {
+			this._cache.equivalentDFA = this._subsetConstruction()[0].immutable();
+		}
+		return this._cache.equivalentDFA;
+	}
+
 	/**
 	 * Perform a DFS from (and including) the given state on its transitions.
 	 * @param state The state to start from. If it has been visited already, _explore() will do nothing.
@@ -176,6 +321,145 @@ export default class NFA {
 		return visited;
 	}
 
+	/**
+	 * Build the product of this NFA and another, whose states are pairs of states from the two
+	 * (named like "(a, b)"). Both are first converted to complete DFAs over the combination of their alphabets,
+	 * and only pairs reachable from the pair of start states are created.
+	 * @param other The other NFA.
+	 * @param accept Whether a pair should be an accept state, given whether each of its states is.
+	 */
+	protected _product(other: NFA, accept: (a: boolean, b: boolean) => boolean): this {
+		const alphabet = this.alphabet.merge(other.alphabet).subtract("");
+		const a = this._snapshot().mutableCopy(false);
+		const b = other._snapshot().mutableCopy(false);
+		for (const nfa of [a, b]) {
+			nfa.setAlphabet(alphabet);
+			nfa.determinize();
+			nfa.complete();
+		}
+
+		const product = this._blank();
+		const ids = Map<List<State>, State>().asMutable();
+		const queue = [] as Array<List<State>>;
+
+		// Get the product state representing a pair, creating it if it does not exist yet
+		const getState = (pair: List<State>): State => {
+			let id = ids.get(pair);
+			if (id === undefined) {
+				id = NFA.nextID;
+				const [p, q] = pair;
+				product.addState("(" + a.name(p) + ", " + b.name(q) + ")");
+				if (accept(a.isAccept(p), b.isAccept(q))) {
+					product.setAccept(id, true);
+				}
+				ids.set(pair, id);
+				queue.push(pair);
+			}
+			return id;
+		};
+
+		product.setStart(getState(List([a.start, b.start])));
+
+		while (queue.length > 0) {
+			const pair = queue.shift()!;
+			const [p, q] = pair;
+			const origin = ids.get(pair)!;
+
+			// Group the symbols by the pair they lead to
+			const symbolsTo = Map<State, Set<string>>().asMutable();
+			for (const symbol of alphabet) {
+				const target = getState(List([a.targets([p], symbol).first(), b.targets([q], symbol).first()]));
+				symbolsTo.set(target, (symbolsTo.get(target) || Set<string>()).add(symbol));
+			}
+			for (const [target, symbols] of symbolsTo) {
+				product.setTransition(origin, target, new SymbolGroup(symbols));
+			}
+		}
+
+		if (this.hasSetAlphabet || other.hasSetAlphabet) {
+			product._alphabet = alphabet;
+		}
+
+		return this._become(product);
+	}
+
+	/**
+	 * Get an immutable copy of this NFA (or itself if it is already immutable), which later changes to this NFA
+	 * will not affect. Transforms which modify a copy of an operand should start from this, since a mutable copy
+	 * of a mutable NFA shares (and would write into) its collections.
+	 */
+	protected _snapshot(): this {
+		return this._mutable ? this.mutableCopy(false).immutable() : this;
+	}
+
+	/**
+	 * Build a DFA equivalent to this NFA using the subset construction.
+	 * Only subsets reachable from the start state are created, and the empty subset is left out
+	 * (so the DFA may be incomplete). Each new state is named after the set of states it represents.
+	 * @returns The new DFA, and a map from each of its states to the set of states it represents.
+	 */
+	protected _subsetConstruction(): [this, Map<State, Set<State>>] {
+		const dfa = this._blank();
+		const alphabet = this._alphabetSymbols();
+		const ids = Map<Set<State>, State>().asMutable();
+		const subsets = Map<State, Set<State>>().asMutable();
+		const queue = [] as Array<Set<State>>;
+
+		// Get the DFA state representing a subset, creating it if it does not exist yet
+		const getState = (subset: Set<State>): State => {
+			let id = ids.get(subset);
+			if (id === undefined) {
+				id = NFA.nextID;
+				dfa.addState(this.subsetName(subset));
+				if (shareAny([subset, this._accept])) {
+					dfa.setAccept(id, true);
+				}
+				ids.set(subset, id);
+				subsets.set(id, subset);
+				queue.push(subset);
+			}
+			return id;
+		};
+
+		dfa.setStart(getState(this.closure([this._start])));
+
+		while (queue.length > 0) {
+			const subset = queue.shift()!;
+			const origin = ids.get(subset)!;
+
+			// Group the symbols by the subset they lead to
+			const symbolsTo = Map<State, Set<string>>().asMutable();
+			for (const symbol of alphabet) {
+				const targets = this.closure(this.targets(subset, symbol));
+				if (targets.size === 0) {
+					continue;
+				}
+				const target = getState(targets);
+				symbolsTo.set(target, (symbolsTo.get(target) || Set<string>()).add(symbol));
+			}
+			for (const [target, symbols] of symbolsTo) {
+				dfa.setTransition(origin, target, new SymbolGroup(symbols));
+			}
+		}
+
+		if (this._alphabet) {
+			dfa._alphabet = this._alphabet.subtract("");
+		}
+
+		return [dfa, subsets.asImmutable()];
+	}
+
+	/**
+	 * Return the given name, with primes appended to it if necessary so that no state already has it.
+	 */
+	protected _uniqueName(name: string): string {
+		const taken = this._names.valueSeq().toSet();
+		while (taken.has(name)) {
+			name += "'";
+		}
+		return name;
+	}
+
 	/**
 	 * Get the accept states.
 	 */
@@ -210,6 +494,20 @@ export default class NFA {
 		return this._cache.generatingStates;
 	}
 
+	/**
+	 * Whether the NFA has any empty transitions (transitions on ε).
+	 */
+	get hasEmptyTransitions(): boolean {
+		for (const transitions of this._transitions.values()) {
+			for (const symbols of transitions.values()) {
+				if (symbols.has("")) {
+					return true;
+				}
+			}
+		}
+		return false;
+	}
+
 	/**
 	 * Whether the NFA has an explicit/set or implicit/unset alphabet.
 	 */
@@ -267,6 +565,13 @@ export default class NFA {
 		return this._states.size;
 	}
 
+	/**
+	 * Get the positions at which states are drawn (only for those which have been given one).
+	 */
+	get positions(): Map<State, Position> {
+		return this._positions;
+	}
+
 	/**
 	 * Get the reachable states (those with a path from the start state to them).
 	 */
@@ -328,11 +633,54 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Get the ε-closure of the given states; i.e., those states plus all states reachable from them
+	 * via empty transitions. Invalid states are ignored.
+	 */
+	closure(states: Iterable<State>): Set<State> {
+		const closure = Set<State>().asMutable();
+		const stack = [...states];
+		while (stack.length > 0) {
+			const state = this.state(stack.pop()!);
+			if (!state || closure.has(state)) {
+				continue;
+			}
+			closure.add(state);
+			for (const [target, symbols] of this.transitionsFrom(state)) {
+				if (symbols.has("")) {
+					stack.push(target);
+				}
+			}
+		}
+		return closure.asImmutable();
+	}
+
+	/**
+	 * Convert the NFA to a complete DFA accepting exactly the strings (over its alphabet) which it rejects.
+	 */
+	complement(): this {
+		const dfa = this._snapshot().mutableCopy(false);
+		dfa.determinize();
+		dfa.complete();
+		for (const state of dfa._states) {
+			dfa.toggleAccept(state);
+		}
+		return this._become(dfa);
+	}
+
 	/**
 	 * Complete the NFA, such that the transition function is complete - i.e., every state transitions
-	 * on every symbol in the alphabet. Add an extra nongenerating state if necessary.
+	 * on every symbol in the alphabet (not counting ε). The missing symbols go to a nongenerating state, which is
+	 * added if necessary as a "Reject" state looping on every symbol; they are merged into any existing transition to it.
 	 */
 	complete(): this {
+		// Find the symbols on which each state does not yet transition
+		const missing = this._states.toMap().map((origin) => this.alphabet.subtract(this.symbolsFrom(origin), ""))
+			.filter((symbols) => !symbols.empty);
+		if (missing.size === 0) {
+			return this;
+		}
+
 		const nfa = this.mutable(true);
 
 		let nongenerating = 0;
@@ -346,17 +694,10 @@ export default class NFA {
 		if (!nongenerating) {
 			nongenerating = NFA.nextID;
 			nfa.addState("Reject");
+			nfa.setTransition(nongenerating, nongenerating, nfa.alphabet.subtract(""));
 		}
-		let modified = false;
-		for (const origin of nfa._states) {
-			const remainingSymbols = nfa.alphabet.subtract(nfa.symbolsFrom(origin));
-			if (remainingSymbols.size !== 0) {
-				nfa.setTransition(origin, nongenerating, remainingSymbols);
-				modified = true;
-			}
-		}
-		if (!modified) {
-			return this;
+		for (const [origin, symbols] of missing) {
+			nfa.setTransition(origin, nongenerating, symbols.merge(nfa.symbols(origin, nongenerating)));
 		}
 		if (nfa._cache.reachableStates) {
 			nfa._cache.reachableStates = nfa._cache.reachableStates.add(nongenerating);
@@ -367,6 +708,109 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Concatenate another NFA onto this one, so that the result accepts any string accepted by this NFA
+	 * followed by any string accepted by the other.
+	 * The other NFA's states are copied in, and each accept state of this NFA gets an empty transition
+	 * to the copy of the other's start state.
+	 */
+	concat(other: NFA): this {
+		const nfa = this.mutableCopy(false);
+		const ids = nfa._addCopyOf(other);
+		const otherStart = ids.get(other._start);
+		for (const state of this._accept) {
+			if (otherStart) {
+				nfa._addEmptyTransition(state, otherStart);
+			}
+			nfa.setAccept(state, false);
+		}
+		for (const state of other._accept) {
+			nfa.setAccept(ids.get(state)!, true);
+		}
+		return this._become(nfa);
+	}
+
+	/**
+	 * Count the distinct strings of each length which the NFA accepts (counting paths in an equivalent DFA).
+	 * The counts are exact up to Number.MAX_SAFE_INTEGER (2^53 - 1), and approximate beyond it.
+	 * @param n The maximum length.
+	 * @returns The counts for each length from 0 to n.
+	 */
+	countByLength(n: number): number[] {
+		const dfa = this._equivalentDFA();
+		const counts = [] as number[];
+		// The number of strings of the current length leading to each state from which a string can be accepted
+		let paths = Map<State, number>();
+		if (dfa.generating(dfa._start)) {
+			paths = paths.set(dfa._start, 1);
+		}
+		for (let length = 0; length <= n; length++) {
+			counts.push(paths.filter((count, state) => dfa.isAccept(state)).reduce((sum, count) => sum + count, 0));
+			const nextPaths = Map<State, number>().asMutable();
+			for (const [origin, count] of paths) {
+				for (const [target, symbols] of dfa.transitionsFrom(origin)) {
+					if (dfa.generating(target)) {
+						nextPaths.update(target, 0, (total) => total + count * symbols.size);
+					}
+				}
+			}
+			paths = nextPaths.asImmutable();
+		}
+		return counts;
+	}
+
+	/**
+	 * Convert the NFA to an equivalent DFA using the subset construction (see _subsetConstruction()).
+	 * Does nothing if it is already a DFA.
+	 */
+	determinize(): this {
+		if (this.isDFA) {
+			return this;
+		}
+		return this._become(this._subsetConstruction()[0]);
+	}
+
+	/**
+	 * Build a DFA accepting the strings which this NFA accepts but the other does not (see _product()).
+	 */
+	difference(other: NFA): this {
+		return this._product(other, (a, b) => a && !b);
+	}
+
+	/**
+	 * Check whether this NFA accepts exactly the same language as another.
+	 * @returns true if so, otherwise the shortest string (first in shortlex order) accepted by exactly one of them.
+	 * Note that this may be the empty string, so the result must be compared with true explicitly.
+	 */
+	equivalentTo(other: NFA): true | string {
+		const witness = this._findWitness(other, (a, b) => a !== b);
+		return witness === null ? true : witness;
+	}
+
+	/**
+	 * Replace the NFA with one read from a Graphviz DOT graph (see Dot.ts for the supported subset).
+	 * @throws DotSyntaxError If the graph is invalid or uses unsupported features.
+	 */
+	fromDot(dot: string): this {
+		return this.init(dotToDefinition(dot));
+	}
+
+	/**
+	 * Replace the NFA with one read from a JFLAP .jff finite automaton (see JFF.ts for the supported subset).
+	 * @throws JFFSyntaxError If the file is invalid or is not a supported finite automaton.
+	 */
+	fromJFF(jff: string): this {
+		return this.init(jffToDefinition(jff));
+	}
+
+	/**
+	 * Replace the NFA with one read from a transition table in Markdown or CSV (see Table.ts for the layout).
+	 * @throws TableSyntaxError If the table is invalid.
+	 */
+	fromTable(table: string, format: 'markdown' | 'csv'): this {
+		return this.init(tableToDefinition(table, format));
+	}
+
 	/**
 	 * Check whether the given state is generating (has a path to an accept state).
 	 * @param state The state to check.
@@ -375,6 +819,19 @@ export default class NFA {
 		return this.generatingStates.has(this.state(state));
 	}
 
+	/**
+	 * Check whether another NFA has exactly the same states, names, transitions, start and accept states as this one
+	 * (e.g. because it only differs in its positions or its simulation). Compares references, so it is cheap, but
+	 * it can give false negatives for NFAs which were not derived from each other.
+	 */
+	hasSameStructure(other: NFA): boolean {
+		return this._states === other._states
+			&& this._names === other._names
+			&& this._transitions === other._transitions
+			&& this._start === other._start
+			&& this._accept === other._accept;
+	}
+
 	/**
 	 * Return whether there is a transition from one state to another.
 	 * @param origin The origin state ID.
@@ -420,10 +877,18 @@ export default class NFA {
 		this._accept = this._accept.asImmutable();
 		this._states = this._states.asImmutable();
 		this._names = this._names.asImmutable();
+		this._positions = this._positions.asImmutable();
 		Object.freeze(this);
 		return this;
 	}
 
+	/**
+	 * Build a DFA accepting the strings which both this NFA and the other accept (see _product()).
+	 */
+	intersect(other: NFA): this {
+		return this._product(other, (a, b) => a && b);
+	}
+
 	/**
 	 * Check whether a given state is an accept state.
 	 */
@@ -431,6 +896,47 @@ export default class NFA {
 		return this._accept.has(this.state(state));
 	}
 
+	/**
+	 * Check whether the NFA accepts no strings at all.
+	 * @returns true if so, otherwise the shortest string (first in shortlex order) which it accepts.
+	 */
+	isEmpty(): true | string {
+		if (!this.generating(this._start)) {
+			return true;
+		}
+		const witness = this._findWitness(this, (a) => a);
+		return witness === null ? true : witness;
+	}
+
+	/**
+	 * Check whether the NFA accepts only finitely many strings; i.e., no cycle in an equivalent DFA
+	 * is both reachable and generating.
+	 */
+	isFinite(): boolean {
+		const dfa = this._equivalentDFA();
+		const useful = dfa.reachableStates.intersect(dfa.generatingStates);
+		const visiting = Set<State>().asMutable();
+		const visited = Set<State>().asMutable();
+		const hasCycle = (state: State): boolean => {
+			if (visiting.has(state)) {
+				return true;
+			}
+			if (visited.has(state)) {
+				return false;
+			}
+			visiting.add(state);
+			for (const [target, ] of dfa.transitionsFrom(state)) {
+				if (useful.has(target) && hasCycle(target)) {
+					return true;
+				}
+			}
+			visiting.remove(state);
+			visited.add(state);
+			return false;
+		};
+		return !useful.has(dfa._start) || !hasCycle(dfa._start);
+	}
+
 	/**
 	 * Check whether a state is the start state.
 	 */
@@ -439,6 +945,42 @@ export default class NFA {
 		return !!state && this._start === state;
 	}
 
+	/**
+	 * Check whether every string accepted by this NFA is also accepted by another.
+	 * @returns true if so, otherwise the shortest string (first in shortlex order) accepted by this NFA but not the other.
+	 */
+	isSubsetOf(other: NFA): true | string {
+		if (!this.generating(this._start)) {
+			return true;
+		}
+		const witness = this._findWitness(other, (a, b) => a && !b);
+		return witness === null ? true : witness;
+	}
+
+	/**
+	 * Check whether the NFA accepts every string over its alphabet.
+	 * @returns true if so, otherwise the shortest string (first in shortlex order) which it rejects.
+	 */
+	isUniversal(): true | string {
+		if (!this.generating(this._start)) {
+			return "";
+		}
+		const witness = this._findWitness(this, (a) => !a);
+		return witness === null ? true : witness;
+	}
+
+	/**
+	 * Get the number of distinct strings which the NFA accepts (Infinity if there are infinitely many).
+	 */
+	languageSize(): number {
+		if (!this.isFinite()) {
+			return Infinity;
+		}
+		// The accepted strings of a finite language can't be longer than the number of useful states
+		const dfa = this._equivalentDFA();
+		return dfa.countByLength(dfa.generatingStates.size).reduce((sum, count) => sum + count, 0);
+	}
+
 	/**
 	 * Get the minimal alphabet for this NFA; i.e., the set of all symbols in all its transitions.
 	 * @param include If provided, these symbols will also be included in the resultant alphabet.
@@ -456,6 +998,146 @@ export default class NFA {
 		return this._cache.minimalAlphabet.merge(include);
 	}
 
+	/**
+	 * Build the minimal complete DFA equivalent to this NFA, using Hopcroft's partition refinement algorithm.
+	 * The NFA is first converted to a DFA (if necessary), stripped of unreachable states and completed.
+	 * States which replace more than one state are named after the set of original states they replace.
+	 * @returns The minimal DFA, and a map from each of its states to the original states it replaced
+	 * (which may be empty for a reject state added by completion).
+	 */
+	minimization(): [this, Map<State, Set<State>>] {
+		let dfa: this;
+		let subsets: Map<State, Set<State>>;
+		if (this.isDFA) {
+			dfa = this.mutableCopy(false);
+			subsets = Map<State, Set<State>>().asMutable();
+			for (const state of this._states) {
+				if (this.reachable(state)) {
+					subsets.set(state, Set([state]));
+				} else {
+					dfa.removeState(state);
+				}
+			}
+		} else {
+			[dfa, subsets] = this._subsetConstruction();
+		}
+		dfa.complete();
+
+		const alphabet = dfa._alphabetSymbols();
+
+		// For each symbol and target, the states which transition to that target on that symbol
+		const inverse = Map<string, State[]>().asMutable();
+		for (const origin of dfa._states) {
+			for (const [target, symbols] of dfa.transitionsFrom(origin)) {
+				for (const symbol of symbols) {
+					const key = target + " " + symbol;
+					inverse.set(key, (inverse.get(key) || []).concat(origin));
+				}
+			}
+		}
+
+		// The partition of the DFA's states into blocks, and the blocks which still need to be split on
+		const blocks = [] as Array<Set<State>>;
+		const blockOf = Map<State, number>().asMutable();
+		const waiting = [] as number[];
+		const isWaiting = [] as boolean[];
+
+		const addBlock = (block: Set<State>): number => {
+			const index = blocks.length;
+			blocks.push(block);
+			isWaiting.push(false);
+			for (const state of block) {
+				blockOf.set(state, index);
+			}
+			return index;
+		};
+		const wait = (index: number) => {
+			if (!isWaiting[index]) {
+				isWaiting[index] = true;
+				waiting.push(index);
+			}
+		};
+
+		const accepting = dfa._states.filter((state) => dfa.isAccept(state)).toSet();
+		const rejecting = dfa._states.filter((state) => !dfa.isAccept(state)).toSet();
+		for (const block of [accepting, rejecting]) {
+			if (block.size !== 0) {
+				wait(addBlock(block));
+			}
+		}
+
+		while (waiting.length > 0) {
+			const splitterIndex = waiting.pop()!;
+			const splitter = blocks[splitterIndex];
+			isWaiting[splitterIndex] = false;
+			for (const symbol of alphabet) {
+				// Find all the states which transition into the splitter on this symbol, grouped by block
+				const into = Map<number, Set<State>>().asMutable();
+				for (const target of splitter) {
+					for (const origin of inverse.get(target + " " + symbol) || []) {
+						const index = blockOf.get(origin)!;
+						into.set(index, (into.get(index) || Set<State>()).add(origin));
+					}
+				}
+
+				// Split each of those blocks into the states which do and do not transition into the splitter
+				for (const [index, inside] of into) {
+					const outside = blocks[index].subtract(inside);
+					if (outside.size === 0) {
+						continue;
+					}
+					blocks[index] = inside;
+					const newIndex = addBlock(outside);
+					if (isWaiting[index]) {
+						wait(newIndex);
+					} else {
+						wait(inside.size <= outside.size ? index : newIndex);
+					}
+				}
+			}
+		}
+
+		// Build the minimal DFA, with one state per block
+		const minimal = this._blank();
+		const ids = [] as State[];
+		const replaced = Map<State, Set<State>>().asMutable();
+		for (const block of blocks) {
+			const id = NFA.nextID;
+			const original = Set<State>().union(...block.map((state) => subsets.get(state) || Set<State>()));
+			if (block.size === 1) {
+				minimal.addState(dfa.name(block.first()));
+			} else {
+				minimal.addState(this.subsetName(original));
+			}
+			if (dfa.isAccept(block.first())) {
+				minimal.setAccept(id, true);
+			}
+			ids.push(id);
+			replaced.set(id, original);
+		}
+		blocks.forEach((block, index) => {
+			const symbolsTo = Map<State, SymbolGroup>().asMutable();
+			for (const [target, symbols] of dfa.transitionsFrom(block.first())) {
+				const newTarget = ids[blockOf.get(target)!];
+				symbolsTo.set(newTarget, symbols.merge(symbolsTo.get(newTarget)));
+			}
+			for (const [target, symbols] of symbolsTo) {
+				minimal.setTransition(ids[index], target, symbols);
+			}
+		});
+		minimal.setStart(ids[blockOf.get(dfa._start)!]);
+		minimal._alphabet = dfa._alphabet;
+
+		return [this._become(minimal), replaced.asImmutable()];
+	}
+
+	/**
+	 * Convert the NFA to the minimal complete DFA for its language (see minimization()).
+	 */
+	minimize(): this {
+		return this.minimization()[0];
+	}
+
 	/**
 	 * Return a shallow, mutable copy of this NFA (or itself it is already mutable).
 	 * Also empties the cache, thus fully preparing it for modification.
@@ -495,6 +1177,32 @@ export default class NFA {
 		return this._names.get(state) || "";
 	}
 
+	/**
+	 * Make the NFA also accept the empty string, by adding a new accepting start state with an empty transition
+	 * to the old one.
+	 */
+	optional(): this {
+		const nfa = this.mutableCopy(false);
+		const start = NFA.nextID;
+		nfa.addState(nfa._uniqueName("Start"));
+		nfa._addEmptyTransition(start, this._start);
+		nfa.setAccept(start, true);
+		nfa.setStart(start);
+		return this._become(nfa);
+	}
+
+	/**
+	 * Make the NFA accept one or more repetitions of the strings it accepts (Kleene plus),
+	 * by adding empty transitions from each accept state back to the start state.
+	 */
+	plus(): this {
+		const nfa = this.mutableCopy(false);
+		for (const state of this._accept) {
+			nfa._addEmptyTransition(state, this._start);
+		}
+		return this._become(nfa);
+	}
+
 	/**
 	 * Check whether the given state is reachable (has a path from the start state).
 	 */
@@ -502,6 +1210,40 @@ export default class NFA {
 		return this.reachableStates.has(this.state(state));
 	}
 
+	/**
+	 * Remove all empty transitions, without changing the language accepted.
+	 * Each state takes on the (non-empty) transitions of all the states in its ε-closure, and becomes an accept
+	 * state if any of them are. States which were only reachable via empty transitions may become unreachable,
+	 * and can then be removed with trim().
+	 */
+	removeEpsilon(): this {
+		if (!this.hasEmptyTransitions) {
+			return this;
+		}
+		const nfa = this.mutableCopy(false);
+		nfa._transitions = nfa._transitions.asMutable();
+		for (const origin of this._states) {
+			const closure = this.closure([origin]);
+			const transitions = Map<State, SymbolGroup>().asMutable();
+			for (const state of closure) {
+				for (const [target, symbols] of this.transitionsFrom(state)) {
+					const nonEmpty = symbols.subtract("");
+					if (!nonEmpty.empty) {
+						transitions.set(target, nonEmpty.merge(transitions.get(target)));
+					}
+				}
+			}
+			nfa._transitions.set(origin, transitions);
+			if (shareAny([closure, this._accept])) {
+				nfa.setAccept(origin, true);
+			}
+		}
+		if (nfa._alphabet) {
+			nfa._alphabet = nfa._alphabet.subtract("");
+		}
+		return this._become(nfa);
+	}
+
 	/**
 	 * Remove a state (and all associated transitions).
 	 */
@@ -562,6 +1304,34 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Reverse the NFA, so that it accepts the reverse of each string it accepted.
+	 * All transitions are reversed and the start state becomes the only accept state. If there was exactly
+	 * one accept state, it becomes the start state; otherwise a new start state is added, with empty transitions
+	 * to each of the old accept states.
+	 */
+	reverse(): this {
+		const nfa = this.mutableCopy(false);
+		nfa._transitions = this._states.toMap().map(() => Map<State, SymbolGroup>().asMutable()).asMutable();
+		for (const [origin, transitions] of this._transitions) {
+			for (const [target, symbols] of transitions) {
+				nfa._transitions.get(target)!.set(origin, symbols);
+			}
+		}
+		nfa._accept = Set([this._start]).asMutable();
+		if (this._accept.size === 1) {
+			nfa._start = this._accept.first();
+		} else {
+			const start = NFA.nextID;
+			nfa.addState(nfa._uniqueName("Start"));
+			for (const state of this._accept) {
+				nfa._addEmptyTransition(start, state);
+			}
+			nfa.setStart(start);
+		}
+		return this._become(nfa);
+	}
+
 	/**
 	 * Set whether a state is an accept state or not.
 	 * @param state The state to set.
@@ -632,6 +1402,28 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Set the positions at which states are drawn. This does not affect the language, so the cache is kept.
+	 * @param positions The new positions of any number of states (others keep their positions).
+	 */
+	setPositions(positions: Map<State, Position>): this {
+		const changed = positions.filter((position, state) => {
+			const old = this._positions.get(state);
+			return this._states.has(state) && (!old || old[0] !== position[0] || old[1] !== position[1]);
+		});
+		if (changed.size === 0) {
+			return this;
+		}
+
+		const nfa = this.mutable(true);
+		nfa._positions = nfa._positions.asMutable().merge(changed);
+
+		if (!this._mutable) {
+			nfa.immutable();
+		}
+		return nfa;
+	}
+
 	/**
 	 * Set a new start state.
 	 */
@@ -734,6 +1526,14 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Make the NFA accept zero or more repetitions of the strings it accepts (Kleene star).
+	 * This is the combination of plus() and optional().
+	 */
+	star(): this {
+		return this._become(this.mutableCopy(false).plus().optional());
+	}
+
 	/**
 	 * Return a state ID as a number, or 0 if the state is invalid.
 	 * @param {Number} state The state ID.
@@ -747,6 +1547,118 @@ export default class NFA {
 		return state;
 	}
 
+	/**
+	 * Convert the NFA to a regex by state elimination on a generalized NFA, whose transitions are labelled with regexes.
+	 * A new initial state (with an empty transition to the start state) and a new final state (with empty transitions
+	 * from each accept state) are added, then the other states are eliminated one at a time, with each pair of
+	 * transitions through an eliminated state being replaced by a transition on the concatenated regex.
+	 * Unreachable and nongenerating states are ignored.
+	 * @param order The heuristic for choosing which state to eliminate next.
+	 * @returns The regex, and the remaining transitions after each state is eliminated.
+	 */
+	stateElimination(order: EliminationOrder = 'degree'): [string, IEliminationStep[]] {
+		const initial = -1;
+		const final = -2;
+		const names = Map<State, string>(this._states.toSeq().map((state): [State, string] => [state, this.name(state)]))
+			.set(initial, "(initial)")
+			.set(final, "(final)");
+		const edges = Map<State, Map<State, Regex>>().asMutable();
+
+		const get = (origin: State, target: State): Regex => edges.getIn([origin, target], {type: 'none'});
+		const set = (origin: State, target: State, regex: Regex) => {
+			edges.set(origin, (edges.get(origin) || Map<State, Regex>()).set(target, regex));
+		};
+		const incoming = (state: State): State[] => (
+			[...edges.keys()].filter((origin) => origin !== state && edges.get(origin)!.has(state))
+		);
+		const outgoing = (state: State): State[] => (
+			[...(edges.get(state) || Map<State, Regex>()).keys()].filter((target) => target !== state)
+		);
+
+		const remaining = this._states.filter((state) => this.reachable(state) && this.generating(state)).toArray();
+		if (remaining.includes(this._start)) {
+			set(initial, this._start, {type: 'empty'});
+		}
+		for (const origin of remaining) {
+			if (this.isAccept(origin)) {
+				set(origin, final, {type: 'empty'});
+			}
+			for (const [target, symbols] of this.transitionsFrom(origin)) {
+				if (remaining.includes(target)) {
+					set(origin, target, makeSymbols(symbols));
+				}
+			}
+		}
+
+		// The cost of eliminating a state according to the heuristic
+		const cost = (state: State): number => {
+			const ins = incoming(state);
+			const outs = outgoing(state);
+			if (order === 'degree') {
+				return ins.length * outs.length;
+			}
+			// Estimate the total size of the new regexes
+			const size = (origin: State, target: State) => regexToString(get(origin, target)).length;
+			let total = size(state, state) * ins.length * outs.length;
+			for (const origin of ins) {
+				total += size(origin, state) * outs.length;
+			}
+			for (const target of outs) {
+				total += size(state, target) * ins.length;
+			}
+			return total;
+		};
+
+		const steps = [] as IEliminationStep[];
+		while (remaining.length > 0) {
+			let index = 0;
+			if (order !== 'states') {
+				let minCost = Infinity;
+				remaining.forEach((state, i) => {
+					const stateCost = cost(state);
+					if (stateCost < minCost) {
+						minCost = stateCost;
+						index = i;
+					}
+				});
+			}
+			const [state] = remaining.splice(index, 1);
+
+			// Replace each path through the state with a direct transition
+			const loop = makeStar(get(state, state));
+			const ins = incoming(state);
+			const outs = outgoing(state);
+			for (const origin of ins) {
+				for (const target of outs) {
+					const through = makeConcat(get(origin, state), loop, get(state, target));
+					set(origin, target, makeUnion(get(origin, target), through));
+				}
+			}
+			edges.delete(state);
+			for (const origin of ins) {
+				edges.set(origin, edges.get(origin)!.delete(state));
+			}
+
+			const stepEdges = [] as Array<[string, string, string]>;
+			for (const [origin, targets] of edges) {
+				for (const [target, regex] of targets) {
+					stepEdges.push([names.get(origin)!, names.get(target)!, regexToString(regex)]);
+				}
+			}
+			steps.push({edges: stepEdges, name: this.name(state), state});
+		}
+
+		return [regexToString(get(initial, final)), steps];
+	}
+
+	/**
+	 * Get a name for a set of states, of the form "{Start, a}".
+	 */
+	subsetName(states: Iterable<State>): string {
+		const sorted = [...states].sort((a, b) => a - b);
+		return "{" + sorted.map((state) => this.name(state)).join(", ") + "}";
+	}
+
 	/**
 	 * Return the symbols of a transition from one state to another (empty group if none).
 	 */
@@ -771,6 +1683,22 @@ export default class NFA {
 		return SymbolGroup.merge(allGroups);
 	}
 
+	/**
+	 * Get all the states to which any of the given states transition on the given symbol
+	 * (without following empty transitions afterwards).
+	 */
+	targets(origins: Iterable<State>, symbol: string): Set<State> {
+		const targets = Set<State>().asMutable();
+		for (const origin of origins) {
+			for (const [target, symbols] of this.transitionsFrom(origin)) {
+				if (symbols.has(symbol)) {
+					targets.add(target);
+				}
+			}
+		}
+		return targets.asImmutable();
+	}
+
 	/**
 	 * Get a definition of the NFA, easily convertable to JSON and parseable by the constructor.
 	 */
@@ -803,7 +1731,7 @@ export default class NFA {
 		for (const origin of toState) {
 			const transitionsFrom = [] as Array<[number, string]>;
 			for (const [target, symbols] of this.transitionsFrom(origin)) {
-				transitionsFrom.push([fromState.get(target)!, symbols.toString()]);
+				transitionsFrom.push([fromState.get(target)!, symbols.toString(" ", true)]);
 			}
 			transitionsFrom.sort((a, b) => a[0] - b[0]);
 			transitions.push(transitionsFrom);
@@ -815,12 +1743,175 @@ export default class NFA {
 			names,
 			transitions,
 		} as IDefinition;
+		if (toState.every((state) => this._positions.has(state))) {
+			ret.positions = toState.map((state) => this._positions.get(state)!);
+		}
 		if (this.hasSetAlphabet) {
 			ret.alphabet = this.alphabet.toString(" ", false);
 		}
 		return ret;
 	}
 
+	/**
+	 * Get a Graphviz DOT graph of the NFA, which can be read back by fromDot().
+	 * Accept states are drawn as double circles, and the start state has an arrow from an invisible node.
+	 */
+	toDot(): string {
+		const quote = (value: string) => "\"" + value.replace(/["\\]/g, "\\$&") + "\"";
+
+		// Number the states in the same way as toDefinition()
+		const definition = this.toDefinition();
+		const lines = [
+			"digraph NFA {",
+			"\trankdir=LR;",
+			"\tnode [shape=circle];",
+		];
+		if (definition.n > 0) {
+			lines.push(
+				"\t__start [label=\"\", shape=none, width=0, height=0];",
+				"\t__start -> 0;",
+			);
+		}
+		for (let id = 0; id < definition.n; id++) {
+			const accept = definition.accept!.includes(id);
+			lines.push("\t" + id + " [label=" + quote(definition.names![id]) + (accept ? ", shape=doublecircle" : "") + "];");
+		}
+		const toState = [this._start, ...this._states.toSeq().filter((state) => state !== this._start)];
+		definition.transitions!.forEach((transitionsFrom, origin) => {
+			for (const [target] of transitionsFrom) {
+				const symbols = this.symbols(toState[origin], toState[target]).toString(", ", true);
+				lines.push("\t" + origin + " -> " + target + " [label=" + quote(symbols) + "];");
+			}
+		});
+		lines.push("}");
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Get a JFLAP .jff file of the NFA, which can be read back by fromJFF().
+	 * Each symbol of a transition becomes a separate JFLAP transition. States without positions are put in a row.
+	 */
+	toJFF(): string {
+		// Number the states in the same way as toDefinition()
+		const definition = this.toDefinition();
+		const toState = [this._start, ...this._states.toSeq().filter((state) => state !== this._start)];
+		const lines = [
+			"<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"no\"?>",
+			"<structure>",
+			"\t<type>fa</type>",
+			"\t<automaton>",
+		];
+		for (let id = 0; id < definition.n; id++) {
+			const [x, y] = this._positions.get(toState[id]) || [100 * (id + 1), 100];
+			lines.push(
+				"\t\t<state id=\"" + id + "\" name=\"" + escapeXML(definition.names![id]) + "\">",
+				"\t\t\t<x>" + x + "</x>",
+				"\t\t\t<y>" + y + "</y>",
+			);
+			if (id === 0) {
+				lines.push("\t\t\t<initial/>");
+			}
+			if (definition.accept!.includes(id)) {
+				lines.push("\t\t\t<final/>");
+			}
+			lines.push("\t\t</state>");
+		}
+		definition.transitions!.forEach((transitionsFrom, origin) => {
+			for (const [target] of transitionsFrom) {
+				for (const symbol of this.symbols(toState[origin], toState[target])) {
+					lines.push(
+						"\t\t<transition>",
+						"\t\t\t<from>" + origin + "</from>",
+						"\t\t\t<to>" + target + "</to>",
+						symbol === "" ? "\t\t\t<read/>" : "\t\t\t<read>" + escapeXML(symbol) + "</read>",
+						"\t\t</transition>",
+					);
+				}
+			}
+		});
+		lines.push("\t</automaton>", "</structure>");
+		return lines.join("\n") + "\n";
+	}
+
+	/**
+	 * Convert the NFA to an equivalent regex (see stateElimination()).
+	 */
+	toRegex(order?: EliminationOrder): string {
+		return this.stateElimination(order)[0];
+	}
+
+	/**
+	 * Get a transition (δ) table of the NFA, with a column for each symbol of the alphabet and (unless it is a DFA) ε.
+	 * Cells contain sets of states, or single states for a DFA. Markdown and CSV tables can be read back by fromTable().
+	 */
+	toTable(format: TableFormat): string {
+		const isDFA = this.isDFA;
+		const symbols = [...this.alphabet].filter((symbol) => symbol !== "");
+		if (!isDFA) {
+			symbols.push("");
+		}
+
+		// Number the states in the same way as toDefinition()
+		const toState = [this._start, ...this._states.toSeq().filter((state) => state !== this._start)];
+		const cells = [["δ", ...symbols.map((symbol) => escapeString(symbol, "|"))]];
+		for (const state of toState) {
+			if (!this._states.has(state)) {
+				continue;
+			}
+			cells.push([
+				stateLabel(this.name(state), state === this._start, this.isAccept(state)),
+				...symbols.map((symbol) => {
+					const targets = this.targets([state], symbol);
+					return targetsCell(toState.filter((target) => targets.has(target)).map((target) => this.name(target)), !isDFA);
+				}),
+			]);
+		}
+		return writeTable(cells, format);
+	}
+
+	/**
+	 * Get a LaTeX tikzpicture of the NFA, drawn with the TikZ automata library at the states' positions.
+	 * Requires \usetikzlibrary{automata} (and arrows, for the arrow tips).
+	 */
+	toTikZ(): string {
+		// Number the states in the same way as toDefinition(), converting pixels to centimetres with y pointing up
+		const toState = [this._start, ...this._states.toSeq().filter((state) => state !== this._start)];
+		const id = (state: State) => "q" + toState.indexOf(state);
+		const coordinate = (value: number) => String(Math.round(value) / 100);
+
+		const lines = ["\\begin{tikzpicture}[shorten >=1pt, auto, >=stealth']"];
+		toState.forEach((state, index) => {
+			if (!this._states.has(state)) {
+				return;
+			}
+			const [x, y] = this._positions.get(state) || [100 * (index + 1), 100];
+			const style = ["state"];
+			if (state === this._start) {
+				style.push("initial");
+			}
+			if (this.isAccept(state)) {
+				style.push("accepting");
+			}
+			lines.push("\t\\node[" + style.join(", ") + "] (" + id(state) + ") at (" + coordinate(x) + ", " + coordinate(-y) + ") "
+				+ "{" + escapeLaTeX(this.name(state)) + "};");
+		});
+
+		const edges = [] as string[];
+		for (const origin of toState) {
+			for (const [target, symbols] of this.transitionsFrom(origin)) {
+				const style = origin === target ? "[loop above]" : this.hasTransition(target, origin) ? "[bend left]" : "";
+				edges.push("\t\t(" + id(origin) + ") edge" + style + " node {" + symbolGroupToLaTeX(symbols) + "} "
+					+ (origin === target ? "()" : "(" + id(target) + ")"));
+			}
+		}
+		if (edges.length > 0) {
+			lines.push("\t\\path[->]", ...edges);
+			lines[lines.length - 1] += ";";
+		}
+		lines.push("\\end{tikzpicture}");
+		return lines.join("\n") + "\n";
+	}
+
 	/**
 	 * Toggle whether a state is an accept state or not.
 	 */
@@ -861,6 +1952,13 @@ export default class NFA {
 		return nfa;
 	}
 
+	/**
+	 * Build a DFA accepting the strings which either this NFA or the other accept (see _product()).
+	 */
+	union(other: NFA): this {
+		return this._product(other, (a, b) => a || b);
+	}
+
 	/**
 	 * Unset the alphabet, making it implicit.
 	 */
@@ -875,4 +1973,11 @@ export default class NFA {
 		}
 		return nfa;
 	}
+
+	/**
+	 * Build a DFA accepting the strings which exactly one of this NFA and the other accept (see _product()).
+	 */
+	xor(other: NFA): this {
+		return this._product(other, (a, b) => a !== b);
+	}
 }
@@ -0,0 +1,99 @@
+import {makeConcat, parseRegex, regexToDefinition, regexToString, RegexSyntaxError} from './Regex';
+import RunnableNFA from './RunnableNFA';
+
+const fromRegex = (regex: string) => new RunnableNFA().init(regexToDefinition(regex));
+
+const regexes = ["ab|ba", "(a|b)*abb", "a(b|ε)*a?", "(ab*)+|b", "[a-c]b*", "∅|a", "ε"];
+
+/**
+ * All strings over the symbols up to a maximum length.
+ */
+function allStrings(symbols: string[], maxLength: number): string[] {
+	let strings = [""];
+	let current = [""];
+	for (let length = 1; length <= maxLength; length++) {
+		current = [].concat(...current.map((input) => symbols.map((symbol) => input + symbol) as never[]));
+		strings = strings.concat(current);
+	}
+	return strings;
+}
+
+describe('regexToDefinition()', () => {
+	it('accepts the same strings as a JavaScript regex', () => {
+		for (const regex of regexes) {
+			const automaton = fromRegex(regex);
+			const oracle = new RegExp("^(" + regex.replace(/ε/g, "").replace(/∅/g, "[]") + ")$");
+			for (const input of allStrings(["a", "b", "c"], 5)) {
+				expect([regex, input, automaton.accepts(input)]).toEqual([regex, input, oracle.test(input)]);
+			}
+		}
+	});
+});
+
+describe('parseRegex()', () => {
+	it('reports where the syntax error is', () => {
+		for (const [regex, position] of [["a(b", 1], ["a)", 1], ["*a", 0]] as Array<[string, number]>) {
+			try {
+				parseRegex(regex);
+				fail("Expected a syntax error in " + regex);
+			} catch (e) {
+				expect(e).toBeInstanceOf(RegexSyntaxError);
+				expect([regex, e.position]).toEqual([regex, position]);
+			}
+		}
+	});
+});
+
+describe('regexToString()', () => {
+	it('prints a regex which parses to the same tree', () => {
+		for (const regex of regexes) {
+			const tree = parseRegex(regex);
+			expect(parseRegex(regexToString(tree))).toEqual(tree);
+		}
+	});
+});
+
+describe('toRegex()', () => {
+	it('gives an equivalent regex with every elimination order', () => {
+		for (const regex of regexes) {
+			const automaton = fromRegex(regex);
+			for (const order of ['states', 'degree', 'size'] as const) {
+				const result = automaton.toRegex(order);
+				expect([regex, order, fromRegex(result).equivalentTo(automaton)]).toEqual([regex, order, true]);
+			}
+		}
+	});
+
+	it('simplifies the result', () => {
+		expect(fromRegex("(b|ε)*").toRegex()).toBe("b*");
+		expect(fromRegex("((a|b)(a|b))*").toRegex()).toBe("([ab][ab])*");
+		expect(fromRegex("a*a?").toRegex()).toBe("a*");
+		expect(fromRegex("(ab)*ab").toRegex()).toBe("(ab)+");
+		expect(fromRegex("(a|b)*abb").toRegex()).toBe("[ab]*abb");
+	});
+
+	it('round-trips through minimization', () => {
+		const automaton = fromRegex("(a|b)*abb").minimize();
+		expect(fromRegex(automaton.toRegex()).equivalentTo(automaton)).toBe(true);
+	});
+
+	it('does not add the initial and final pseudo-states to a mutable NFA', () => {
+		const automaton = new RunnableNFA().init(regexToDefinition("ab*"), true);
+		automaton.toRegex();
+		expect(automaton.name(-1)).toBe("");
+		expect(automaton.name(-2)).toBe("");
+	});
+});
+
+describe('makeConcat()', () => {
+	it('merges repetitions with their neighbours', () => {
+		const concat = (...regexes: string[]) => regexToString(makeConcat(...regexes.map(parseRegex)));
+		expect(concat("a", "a*")).toBe("a+");
+		expect(concat("(ab)*", "a", "b")).toBe("(ab)+");
+		expect(concat("a", "b", "(ab)*")).toBe("(ab)+");
+		expect(concat("b?", "b*")).toBe("b*");
+		expect(concat("b*", "b?")).toBe("b*");
+		expect(concat("b?", "b+", "c")).toBe("b+c");
+		expect(concat("a?", "b*")).toBe("a?b*");
+	});
+});
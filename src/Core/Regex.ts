@@ -0,0 +1,526 @@
+import {Map, Set} from 'immutable';
+import {IDefinition} from './NFA';
+import SymbolGroup from './SymbolGroup';
+
+/**
+ * Regular expressions, represented as syntax trees.
+ *
+ * The supported syntax is:
+ *     ab: concatenation
+ *     a|b: union (alternation)
+ *     a*, a+, a?: Kleene star, Kleene plus and optional
+ *     (a): grouping
+ *     ε: the empty string
+ *     ∅: the empty language (matches nothing)
+ *     [a-z0-9]: character classes, including ranges
+ *     \n, \t, \\, \*, etc.: backslash sequences, as in symbol groups (any other escaped character is taken literally)
+ *     ␣: a space, as in symbol groups
+ *
+ * The make*() functions build syntax trees while simplifying them; e.g., (a|a) becomes a, and εx becomes x.
+ */
+
+export type Regex =
+	{type: 'none'} |
+	{type: 'empty'} |
+	{type: 'symbols', symbols: SymbolGroup} |
+	{type: 'concat', parts: Regex[]} |
+	{type: 'union', options: Regex[]} |
+	{type: 'star' | 'plus' | 'optional', inner: Regex};
+
+/**
+ * Error thrown when a regex cannot be parsed.
+ */
+export class RegexSyntaxError extends Error {
+	// The index in the regex at which the error occurred
+	position: number;
+
+	constructor(message: string, position: number) {
+		super(message + " (at character " + (position + 1) + ")");
+		Object.setPrototypeOf(this, RegexSyntaxError.prototype);
+		this.position = position;
+	}
+}
+
+// Characters which have special meaning in standard regexes but are not supported.
+const _unsupported = ".{}^$";
+
+// Characters which must be escaped when printing a regex, outside and inside character classes.
+const _escapeOutside = "|*+?()[]∅" + _unsupported;
+const _escapeInside = "[]-^";
+
+const _none: Regex = {type: 'none'};
+const _empty: Regex = {type: 'empty'};
+
+/**
+ * Recursive descent parser for regexes.
+ */
+class Parser {
+	_input: string;
+	_pos: number;
+
+	constructor(input: string) {
+		this._input = input.normalize();
+		this._pos = 0;
+	}
+
+	/**
+	 * Parse the whole input.
+	 */
+	parse(): Regex {
+		const regex = this.parseUnion();
+		if (this._pos < this._input.length) {
+			// The only way to stop early is on an unmatched closing bracket
+			throw new RegexSyntaxError("Unmatched \")\"", this._pos);
+		}
+		return regex;
+	}
+
+	/**
+	 * Parse an atom: a bracketed expression, character class, ε or (possibly escaped) character.
+	 */
+	parseAtom(): Regex {
+		const start = this._pos;
+		const c = this._input[this._pos];
+		if (c === "(") {
+			this._pos++;
+			const inner = this.parseUnion();
+			if (this._input[this._pos] !== ")") {
+				throw new RegexSyntaxError("Unmatched \"(\"", start);
+			}
+			this._pos++;
+			return inner;
+		}
+		if (c === "[") {
+			return this.parseClass();
+		}
+		if (c === "ε") {
+			this._pos++;
+			return _empty;
+		}
+		if (c === "∅") {
+			this._pos++;
+			return _none;
+		}
+		if ("*+?".includes(c)) {
+			throw new RegexSyntaxError("Nothing to repeat before \"" + c + "\"", start);
+		}
+		if (c === "]") {
+			throw new RegexSyntaxError("Unmatched \"]\"", start);
+		}
+		if (_unsupported.includes(c)) {
+			throw new RegexSyntaxError("\"" + c + "\" is not supported; use a backslash to match it literally", start);
+		}
+		return {type: 'symbols', symbols: new SymbolGroup(Set([this.parseChar()]))};
+	}
+
+	/**
+	 * Parse a single (possibly escaped) character, returning the symbol it represents.
+	 */
+	parseChar(): string {
+		const start = this._pos;
+		if (this._input[this._pos] === "\\") {
+			if (this._pos + 1 >= this._input.length) {
+				throw new RegexSyntaxError("Incomplete backslash sequence", start);
+			}
+			this._pos += 2;
+			// Interpret the sequence in the same way as a symbol group would
+			return [...new SymbolGroup(this._input.substr(start, 2))][0];
+		}
+		this._pos++;
+		if (this._input[start] === "␣") {
+			return " ";
+		}
+		return this._input[start];
+	}
+
+	/**
+	 * Parse a character class such as [a-z0-9].
+	 */
+	parseClass(): Regex {
+		const start = this._pos;
+		this._pos++; // Skip the [
+		if (this._input[this._pos] === "^") {
+			throw new RegexSyntaxError("Negated character classes are not supported", this._pos);
+		}
+		const symbols = [] as string[];
+		while (this._input[this._pos] !== "]") {
+			if (this._pos >= this._input.length) {
+				throw new RegexSyntaxError("Unmatched \"[\"", start);
+			}
+			const rangeStart = this._pos;
+			if (this._input[this._pos] === "ε") {
+				this._pos++;
+				symbols.push("");
+				continue;
+			}
+			const first = this.parseChar();
+			if (this._input[this._pos] === "-" && this._pos + 1 < this._input.length && this._input[this._pos + 1] !== "]") {
+				this._pos++; // Skip the -
+				const last = this.parseChar();
+				if (last.charCodeAt(0) < first.charCodeAt(0)) {
+					throw new RegexSyntaxError("Invalid character range \"" + first + "-" + last + "\"", rangeStart);
+				}
+				for (let code = first.charCodeAt(0); code <= last.charCodeAt(0); code++) {
+					symbols.push(String.fromCharCode(code));
+				}
+			} else {
+				symbols.push(first);
+			}
+		}
+		this._pos++; // Skip the ]
+		if (symbols.length === 0) {
+			throw new RegexSyntaxError("Empty character class", start);
+		}
+		return {type: 'symbols', symbols: new SymbolGroup(Set(symbols))};
+	}
+
+	/**
+	 * Parse a (possibly empty) sequence of repeats.
+	 */
+	parseConcat(): Regex {
+		const parts = [] as Regex[];
+		while (this._pos < this._input.length && !"|)".includes(this._input[this._pos])) {
+			parts.push(this.parseRepeat());
+		}
+		if (parts.length === 0) {
+			return _empty;
+		}
+		if (parts.length === 1) {
+			return parts[0];
+		}
+		return {type: 'concat', parts};
+	}
+
+	/**
+	 * Parse an atom followed by any number of *, + and ? operators.
+	 */
+	parseRepeat(): Regex {
+		let regex = this.parseAtom();
+		while (this._pos < this._input.length) {
+			const c = this._input[this._pos];
+			if (c === "*") {
+				regex = {type: 'star', inner: regex};
+			} else if (c === "+") {
+				regex = {type: 'plus', inner: regex};
+			} else if (c === "?") {
+				regex = {type: 'optional', inner: regex};
+			} else {
+				break;
+			}
+			this._pos++;
+		}
+		return regex;
+	}
+
+	/**
+	 * Parse any number of sequences separated by |.
+	 */
+	parseUnion(): Regex {
+		const options = [this.parseConcat()];
+		while (this._input[this._pos] === "|") {
+			this._pos++;
+			options.push(this.parseConcat());
+		}
+		if (options.length === 1) {
+			return options[0];
+		}
+		return {type: 'union', options};
+	}
+}
+
+/**
+ * Build a regex matching a sequence of regexes, simplifying it.
+ */
+export function makeConcat(...parts: Regex[]): Regex {
+	const simplified = [] as Regex[];
+	for (const part of parts) {
+		if (part.type === 'none') {
+			return _none;
+		} else if (part.type === 'empty') {
+			continue;
+		} else if (part.type === 'concat') {
+			simplified.push(...part.parts);
+		} else {
+			simplified.push(part);
+		}
+	}
+
+	// Replace xx* and x*x with x+ (where x may be a sequence, so that (x*x)? becomes x*),
+	// and drop x? next to x* or x+
+	const same = (a: Regex[], b: Regex[]) => (
+		a.length === b.length && a.every((part, i) => regexToString(part) === regexToString(b[i]))
+	);
+	for (let i = 0; i < simplified.length; i++) {
+		const current = simplified[i];
+		if (current.type === 'star') {
+			const repeated = current.inner.type === 'concat' ? current.inner.parts : [current.inner];
+			const n = repeated.length;
+			if (i >= n && same(simplified.slice(i - n, i), repeated)) {
+				simplified.splice(i - n, n + 1, {type: 'plus', inner: current.inner});
+				i -= n;
+			} else if (same(simplified.slice(i + 1, i + 1 + n), repeated)) {
+				simplified.splice(i, n + 1, {type: 'plus', inner: current.inner});
+			}
+		}
+		const repeat = simplified[i];
+		if (repeat.type === 'star' || repeat.type === 'plus') {
+			const inner = repeat.inner;
+			const optional = (r?: Regex) => r !== undefined && r.type === 'optional' && same([r.inner], [inner]);
+			if (optional(simplified[i - 1])) {
+				simplified.splice(i - 1, 1);
+				i -= 2;
+			} else if (optional(simplified[i + 1])) {
+				simplified.splice(i + 1, 1);
+				i--;
+			}
+		}
+	}
+
+	if (simplified.length === 0) {
+		return _empty;
+	}
+	if (simplified.length === 1) {
+		return simplified[0];
+	}
+	return {type: 'concat', parts: simplified};
+}
+
+/**
+ * Build a regex matching a regex or the empty string, simplifying it.
+ */
+export function makeOptional(inner: Regex): Regex {
+	switch (inner.type) {
+		case 'none':
+		case 'empty':
+			return _empty;
+		case 'star':
+		case 'optional':
+			return inner;
+		case 'plus':
+			return {type: 'star', inner: inner.inner};
+		default:
+			return {type: 'optional', inner};
+	}
+}
+
+/**
+ * Build a regex matching zero or more repetitions of a regex, simplifying it.
+ */
+export function makeStar(inner: Regex): Regex {
+	switch (inner.type) {
+		case 'none':
+		case 'empty':
+			return _empty;
+		case 'star':
+			return inner;
+		case 'plus':
+		case 'optional':
+			return makeStar(inner.inner);
+		case 'union': {
+			// Repetitions within the options are redundant, e.g. (a*|b)* = (a|b)*
+			const union = makeUnion(...inner.options.map((option) => (
+				option.type === 'star' || option.type === 'plus' || option.type === 'optional' ? option.inner : option
+			)));
+			return union.type === 'union' ? {type: 'star', inner: union} : makeStar(union);
+		}
+		default:
+			return {type: 'star', inner};
+	}
+}
+
+/**
+ * Build a regex matching any one of a symbol group's symbols (or the empty string, if it contains ε).
+ */
+export function makeSymbols(symbols: SymbolGroup): Regex {
+	if (symbols.has("")) {
+		return makeUnion(makeSymbols(symbols.subtract("")), _empty);
+	}
+	if (symbols.empty) {
+		return _none;
+	}
+	return {type: 'symbols', symbols};
+}
+
+/**
+ * Build a regex matching any of a number of regexes, simplifying it.
+ * Duplicates are removed, single symbols are merged into character classes, and ε is replaced with ?.
+ */
+export function makeUnion(...options: Regex[]): Regex {
+	const simplified = [] as Regex[];
+	const seen = [] as string[];
+	let symbolsIndex = -1;
+	let hasEmpty = false;
+
+	const add = (option: Regex) => {
+		if (option.type === 'none') {
+			return;
+		} else if (option.type === 'empty') {
+			hasEmpty = true;
+		} else if (option.type === 'union') {
+			option.options.forEach(add);
+		} else if (option.type === 'optional') {
+			hasEmpty = true;
+			add(option.inner);
+		} else if (option.type === 'symbols') {
+			if (symbolsIndex === -1) {
+				symbolsIndex = simplified.length;
+				simplified.push(option);
+			} else {
+				const merged = (simplified[symbolsIndex] as {symbols: SymbolGroup}).symbols.merge(option.symbols);
+				simplified[symbolsIndex] = {type: 'symbols', symbols: merged};
+			}
+		} else {
+			const str = regexToString(option);
+			if (!seen.includes(str)) {
+				seen.push(str);
+				simplified.push(option);
+			}
+		}
+	};
+	options.forEach(add);
+
+	let union: Regex;
+	if (simplified.length === 0) {
+		union = hasEmpty ? _empty : _none;
+	} else if (simplified.length === 1) {
+		union = simplified[0];
+	} else {
+		union = {type: 'union', options: simplified};
+	}
+	if (hasEmpty) {
+		return makeOptional(union);
+	}
+	return union;
+}
+
+/**
+ * Parse a regex string into a syntax tree.
+ * @throws RegexSyntaxError If the regex is invalid.
+ */
+export function parseRegex(input: string): Regex {
+	return new Parser(input).parse();
+}
+
+/**
+ * Build an NFA definition from a regex using Thompson's construction.
+ * State 0 is the start state, and there is exactly one accept state.
+ * @param regex The regex, either as a string or an already parsed syntax tree.
+ * @throws RegexSyntaxError If the regex is a string and is invalid.
+ */
+export function regexToDefinition(regex: Regex | string): IDefinition {
+	if (typeof regex === 'string') {
+		regex = parseRegex(regex);
+	}
+
+	const transitions = [] as Array<Map<number, SymbolGroup>>;
+
+	const addState = (): number => {
+		transitions.push(Map<number, SymbolGroup>());
+		return transitions.length - 1;
+	};
+	const addTransition = (origin: number, target: number, symbols: SymbolGroup | string) => {
+		transitions[origin] = transitions[origin].update(target, (old) => new SymbolGroup(symbols).merge(old));
+	};
+
+	// Build the fragment for a regex, returning its start and end states.
+	// Each fragment's start state is created before any others, so the overall start state is 0.
+	const build = (r: Regex): [number, number] => {
+		switch (r.type) {
+			case 'none':
+				return [addState(), addState()];
+			case 'empty':
+			case 'symbols': {
+				const start = addState();
+				const end = addState();
+				addTransition(start, end, r.type === 'empty' ? "ε" : r.symbols);
+				return [start, end];
+			}
+			case 'concat': {
+				const [start, firstEnd] = build(r.parts[0]);
+				let end = firstEnd;
+				for (const part of r.parts.slice(1)) {
+					const [partStart, partEnd] = build(part);
+					addTransition(end, partStart, "ε");
+					end = partEnd;
+				}
+				return [start, end];
+			}
+			case 'union': {
+				const start = addState();
+				const ends = [] as number[];
+				for (const option of r.options) {
+					const [optionStart, optionEnd] = build(option);
+					addTransition(start, optionStart, "ε");
+					ends.push(optionEnd);
+				}
+				const end = addState();
+				for (const optionEnd of ends) {
+					addTransition(optionEnd, end, "ε");
+				}
+				return [start, end];
+			}
+			default: {
+				const start = addState();
+				const [innerStart, innerEnd] = build(r.inner);
+				const end = addState();
+				addTransition(start, innerStart, "ε");
+				addTransition(innerEnd, end, "ε");
+				if (r.type !== 'plus') {
+					addTransition(start, end, "ε");
+				}
+				if (r.type !== 'optional') {
+					addTransition(innerEnd, innerStart, "ε");
+				}
+				return [start, end];
+			}
+		}
+	};
+
+	const [, accept] = build(regex);
+
+	return {
+		accept: [accept],
+		n: transitions.length,
+		transitions: transitions.map((group) => (
+			[...group].map(([target, symbols]) => [target, symbols.toString(" ", true)] as [number, string])
+		)),
+	};
+}
+
+/**
+ * Print a regex, using as few brackets as possible.
+ * Sets of symbols are printed as character classes, with ranges compressed as in SymbolGroup.toString().
+ */
+export function regexToString(regex: Regex): string {
+	// The precedence of the context: 0 for the top level or a union option, 1 for part of a concatenation,
+	// 2 for the operand of a repetition.
+	const print = (r: Regex, precedence: number): string => {
+		switch (r.type) {
+			case 'none':
+				return "∅";
+			case 'empty':
+				return "ε";
+			case 'symbols': {
+				// Each block is either a range like a-z, or a single (possibly escaped) symbol
+				const blocks = r.symbols.toString(" ").split(" ");
+				if (blocks.length === 1 && blocks[0].length !== 3) {
+					return blocks[0].length === 1 && _escapeOutside.includes(blocks[0]) ? "\\" + blocks[0] : blocks[0];
+				}
+				return "[" + blocks.map((block) => block.length === 1 && _escapeInside.includes(block) ? "\\" + block : block).join("") + "]";
+			}
+			case 'union': {
+				const str = r.options.map((option) => print(option, 0)).join("|");
+				return precedence > 0 ? "(" + str + ")" : str;
+			}
+			case 'concat': {
+				const str = r.parts.map((part) => print(part, 1)).join("");
+				return precedence > 1 ? "(" + str + ")" : str;
+			}
+			default: {
+				const str = print(r.inner, 2) + {star: "*", plus: "+", optional: "?"}[r.type];
+				return precedence > 1 ? "(" + str + ")" : str;
+			}
+		}
+	};
+	return print(regex, 0);
+}
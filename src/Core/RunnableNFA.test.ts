@@ -0,0 +1,120 @@
+import {regexToDefinition} from './Regex';
+import RunnableNFA, {IComputationNode, IDefinition} from './RunnableNFA';
+
+const nfa = (definition: IDefinition, mutable?: boolean) => new RunnableNFA().init(definition, mutable);
+
+// Contains ab (nondeterministic)
+const containsAB = () => nfa({n: 3, accept: [2], transitions: [[[0, "a b"], [1, "a"]], [[2, "b"]], [[2, "a b"]]]});
+
+describe('acceptedStrings() and rejectedStrings()', () => {
+	it('enumerate in shortlex order', () => {
+		expect(Array.from(containsAB().acceptedStrings({maxLength: 3})))
+			.toEqual(["ab", "aab", "aba", "abb", "bab"]);
+		expect(Array.from(containsAB().rejectedStrings({limit: 6})))
+			.toEqual(["", "a", "b", "aa", "ba", "bb"]);
+		expect(Array.from(nfa(regexToDefinition("a*")).acceptedStrings({limit: 3}))).toEqual(["", "a", "aa"]);
+	});
+
+	it('do not change a mutable NFA', () => {
+		const automaton = nfa({n: 2, accept: [1], transitions: [[[1, "a"]], []]}, true);
+		const before = JSON.stringify(automaton.toDefinition());
+		expect(Array.from(automaton.rejectedStrings({maxLength: 1}))).toEqual([""]);
+		expect(JSON.stringify(automaton.toDefinition())).toBe(before);
+		expect(automaton.numStates).toBe(2);
+	});
+
+	it('complement the NFA only once until it changes', () => {
+		const complement = jest.spyOn(RunnableNFA.prototype, 'complement');
+		const automaton = nfa({n: 2, accept: [1], transitions: [[[1, "a"]], []]}, true);
+		Array.from(automaton.rejectedStrings({limit: 2}));
+		Array.from(automaton.run("a").rejectedStrings({limit: 2}));
+		expect(complement).toHaveBeenCalledTimes(1);
+		automaton.setAccept(automaton.start, true);
+		expect(Array.from(automaton.rejectedStrings({limit: 2}))).toEqual(["aa", "aaa"]);
+		expect(complement).toHaveBeenCalledTimes(2);
+		complement.mockRestore();
+	});
+});
+
+describe('checkAgainstRegExp()', () => {
+	it('finds the inputs on which the NFA and the regex disagree', () => {
+		expect(containsAB().checkAgainstRegExp("[ab]*ab[ab]*")).toEqual([]);
+		expect(containsAB().checkAgainstRegExp("[ab]*ab", {maxLength: 3}))
+			.toEqual([{accepted: true, input: "aba"}, {accepted: true, input: "abb"}]);
+	});
+
+	it('tries symbols outside the alphabet', () => {
+		const a = () => nfa({n: 2, accept: [1], transitions: [[[1, "a"]], []]});
+		expect(a().checkAgainstRegExp("a|b")).toEqual([{accepted: false, input: "b"}]);
+		expect(a().checkAgainstRegExp("a|\\.")).toEqual([{accepted: false, input: "."}]);
+		expect(a().checkAgainstRegExp("[^0-9]").map(({input}) => input)).toEqual(["-", "b"]);
+	});
+});
+
+describe('explain()', () => {
+	it('gives a shortest accepting path', () => {
+		const automaton = containsAB();
+		const explanation = automaton.explain("bab");
+		expect(explanation.accepted).toBe(true);
+		expect(explanation.path.map(({state, symbol}) => [automaton.name(state), symbol]))
+			.toEqual([["0", null], ["0", "b"], ["1", "a"], ["2", "b"]]);
+	});
+
+	it('says where a rejected input died', () => {
+		const automaton = nfa({n: 3, accept: [2], transitions: [[[1, "a"]], [[2, "b"]], []]});
+		const explanation = automaton.explain("aa");
+		expect(explanation.accepted).toBe(false);
+		expect(explanation.position).toBe(1);
+		expect(explanation.states.map((state) => automaton.name(state)).toArray()).toEqual(["1"]);
+	});
+});
+
+describe('generateTests()', () => {
+	it('includes every input up to a length', () => {
+		const tests = containsAB().generateTests({maxLength: 2});
+		expect(tests.map((test) => test.input)).toEqual(["", "a", "b", "aa", "ab", "ba", "bb"]);
+		expect(tests[3].reason).toBe("Length 2");
+	});
+
+	it('samples random inputs when there are too many', () => {
+		const tests = nfa(regexToDefinition("[a-z]*")).generateTests({maxInputs: 100, maxLength: 20});
+		expect(tests.length).toBeLessThanOrEqual(100);
+		expect(tests.length).toBeGreaterThan(0);
+		for (const test of tests) {
+			expect(test.input.length).toBeLessThanOrEqual(20);
+			expect(test.reason).toBe("Random, length " + test.input.length);
+		}
+	});
+
+	it('follows every transition', () => {
+		const automaton = containsAB();
+		const tests = automaton.generateTests({transitions: true});
+		const coverage = automaton.coverage(tests.map((test) => test.input));
+		expect(coverage.states.size).toBe(3);
+		expect(coverage.transitions.size).toBe(4);
+	});
+});
+
+describe('run()', () => {
+	it('follows cycles of empty transitions', () => {
+		const automaton = nfa({n: 3, accept: [2], transitions: [[[1, "~"]], [[0, "~"], [2, "a"]], []]});
+		expect(automaton.accepts("a")).toBe(true);
+		const [first, second] = automaton.states.toArray();
+		const run = automaton.run("a");
+		expect(run.hasFollowed(first, second)).toBe(true);
+		expect(run.hasFollowed(second, first)).toBe(true);
+	});
+});
+
+describe('trace and computationTree()', () => {
+	it('record every branch of a run', () => {
+		const automaton = containsAB().run("ab");
+		expect(automaton.trace.map((step) => step.states.size).toArray()).toEqual([1, 2, 2]);
+		const tree = automaton.computationTree()!;
+		const names = (node: IComputationNode): string[] => [
+			automaton.name(node.state),
+			...node.children.map((child) => "(" + child.symbol + " " + names(child).join(" ") + ")"),
+		];
+		expect(names(tree).join(" ")).toBe("0 (a 0 (b 0)) (a 1 (b 2))");
+	});
+});
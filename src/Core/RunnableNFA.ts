@@ -1,10 +1,59 @@
-import {Map, Set} from 'immutable';
+import {List, Map, Set} from 'immutable';
 import {shareAny} from '../Util/sets';
-import NFA, {IDefinition, State, SymbolGroup, TransitionGroup, TransitionMap} from './NFA';
+import NFA, {IDefinition, Position, State, SymbolGroup, TransitionGroup, TransitionMap} from './NFA';
 
 export type IDefinition = IDefinition;
+export interface IExplanation {
+	accepted: boolean,
+	path: IPathStep[], // If accepted, a shortest accepting path, starting with the start state
+	position: number, // If rejected, the number of symbols read before the last branches died (or the input ended)
+	states: Set<State>, // If rejected, the states of the last surviving branches
+};
+export interface IGeneratedTest {
+	input: string,
+	reason: string, // Why the input was generated
+};
+export interface IPathStep {
+	state: State,
+	symbol: string | null, // The symbol read to reach the state (empty for an empty transition, null for the start state)
+};
+export interface ICoverage {
+	states: Set<State>, // The states which were current at any point
+	transitions: Set<string>, // The transitions which were followed, in the form "1-2" (as in _followedTransitions)
+};
+export interface IComputationNode {
+	children: IComputationNode[],
+	state: State,
+	step: number, // The number of symbols read on reaching the state
+	symbol: string, // The symbol read to reach the state (empty if reached by an empty transition, or the start state)
+};
+export interface IEnumerationOptions {
+	limit?: number, // The maximum number of strings to generate
+	maxLength?: number, // The maximum length of the strings
+};
+export interface IDisagreement {
+	accepted: boolean, // Whether the NFA accepts the input (the regex does the opposite)
+	input: string,
+};
+export interface IOracleOptions {
+	maxLength?: number, // The maximum length of the inputs to try (default 6)
+	maxInputs?: number, // If there are more inputs up to maxLength than this, try this many random ones instead (default 10000)
+};
 export type Result = -1 | 0 | 1;
 export type State = State;
+export interface ITestGenerationOptions {
+	boundaries?: boolean, // For each accept state, the shortest strings which just reach it and just leave it
+	maxInputs?: number, // If there are more strings up to maxLength than this, include this many random ones instead (default 1000)
+	maxLength?: number, // If provided, include all strings up to this length
+	transitions?: boolean, // For each transition, the shortest strings which follow it and end in accept and in reject
+};
+export interface ITraceStep {
+	closure: Map<State, Set<State>>, // The states added by following empty transitions, with the states they were reached from
+	produced: Map<State, Set<State>>, // The states reached on the symbol, with the states they were reached from
+	states: Set<State>, // All the current states after the step
+	symbol: string, // The symbol read (empty for the initial step)
+};
+export type Position = Position;
 export type TransitionGroup = TransitionGroup;
 export type TransitionMap = TransitionMap;
 
@@ -26,14 +75,151 @@ export default class RunnableNFA extends NFA {
 	// The value is the step on which it was last followed.
 	protected _followedTransitions: Map<string, number>;
 
+	// The states after each step this run, starting with the initial states before any symbols are read
+	protected _trace: List<ITraceStep>;
+
+	// The followed transitions after each step this run (alongside _trace), so that steps can be undone
+	protected _followedHistory: List<Map<string, number>>;
+
 	public init(definition: NFA | IDefinition, mutable?: boolean): this {
 		this._current = Set().asMutable();
 		this._remainingInput = "";
 		this._numRead = -1;
 		this._followedTransitions = Map<string, number>().asMutable();
+		this._trace = List();
+		this._followedHistory = List();
 		return super.init(definition, mutable);
 	}
 
+	/**
+	 * @override
+	 * The NFA's states are all replaced, so it must also stop running.
+	 */
+	protected _become(nfa: this): this {
+		return super._become(nfa).stop();
+	}
+
+	/**
+	 * Generate, in shortlex order, the strings over the alphabet which lead to a set of states containing an accept
+	 * state. Does not extend a string once it leads only to nongenerating states, so finite languages are exhausted.
+	 */
+	protected *_acceptedStrings(options: IEnumerationOptions): IterableIterator<string> {
+		const {limit = Infinity, maxLength = Infinity} = options;
+		if (limit <= 0) {
+			return;
+		}
+		let count = 0;
+		for (const [input, states] of this._shortlex(maxLength, (states) => shareAny([states, this.generatingStates]))) {
+			if (shareAny([states, this._accept])) {
+				yield input;
+				if (++count >= limit) {
+					return;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Generate random strings over the alphabet, of random lengths up to a maximum.
+	 * @param maxLength The maximum length.
+	 * @param count How many strings to generate (any duplicates are left out).
+	 * @param alphabet The symbols to use, if not the NFA's alphabet.
+	 */
+	protected _randomStrings(maxLength: number, count: number, alphabet: string[] = this._alphabetSymbols()): Set<string> {
+		const strings = Set<string>().asMutable();
+		for (let i = 0; i < count; i++) {
+			let input = "";
+			const length = alphabet.length ? Math.floor(Math.random() * (maxLength + 1)) : 0;
+			while (input.length < length) {
+				input += alphabet[Math.floor(Math.random() * alphabet.length)];
+			}
+			strings.add(input);
+		}
+		return strings.asImmutable();
+	}
+
+	/**
+	 * Generate strings over the alphabet in shortlex order (shortest first, then alphabetically), each with the set
+	 * of states it leads to, by exploring sets of states breadth-first.
+	 * @param maxLength The maximum length of the strings.
+	 * @param extend Whether to go on to the strings which extend one leading to the given set of states.
+	 * @param symbols The symbols to use, if not the NFA's alphabet.
+	 */
+	protected *_shortlex(
+		maxLength: number,
+		extend: (states: Set<State>) => boolean,
+		symbols: string[] = this._alphabetSymbols(),
+	): IterableIterator<[string, Set<State>]> {
+		const alphabet = [...symbols].sort();
+		const queue: Array<[string, Set<State>]> = [["", this.closure([this._start])]];
+		for (let i = 0; i < queue.length; i++) {
+			const [input, states] = queue[i];
+			delete queue[i];
+			yield [input, states];
+			if (input.length < maxLength && extend(states)) {
+				for (const symbol of alphabet) {
+					queue.push([input + symbol, this.closure(this.targets(states, symbol))]);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Find the shortest string (first in shortlex order) over the alphabet which leads to a goal, by a breadth-first
+	 * search from an initial node, where each node is something like a set of current states.
+	 * @param initial The node for the empty string.
+	 * @param next Get the node after reading a symbol.
+	 * @param key Get a key for a node, such that nodes with the same key are equivalent.
+	 * @param goal Whether a node is a goal.
+	 * @returns The string, or null if no goal is reachable.
+	 */
+	protected _shortestString<T>(
+		initial: T,
+		next: (node: T, symbol: string) => T,
+		key: (node: T) => string,
+		goal: (node: T) => boolean,
+	): string | null {
+		const alphabet = this._alphabetSymbols().sort();
+		const visited = Set<string>().asMutable().add(key(initial));
+		const queue: Array<[string, T]> = [["", initial]];
+		for (let i = 0; i < queue.length; i++) {
+			const [input, node] = queue[i];
+			if (goal(node)) {
+				return input;
+			}
+			for (const symbol of alphabet) {
+				const nextNode = next(node, symbol);
+				if (!visited.has(key(nextNode))) {
+					visited.add(key(nextNode));
+					queue.push([input + symbol, nextNode]);
+				}
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Generate every string up to a maximum length in shortlex order, or random strings if there would be too many.
+	 * @param maxLength The maximum length.
+	 * @param maxInputs The most strings to generate.
+	 * @param alphabet The symbols to use, if not the NFA's alphabet.
+	 * @returns The strings, and whether they are random.
+	 */
+	protected _stringsUpTo(
+		maxLength: number,
+		maxInputs: number,
+		alphabet: string[] = this._alphabetSymbols(),
+	): [Iterable<string>, boolean] {
+		let numInputs = 0;
+		for (let length = 0; length <= maxLength && numInputs <= maxInputs; length++) {
+			numInputs += Math.pow(alphabet.length, length);
+		}
+		if (numInputs <= maxInputs) {
+			return [[...this._shortlex(maxLength, () => true, alphabet)].map(([input]) => input), false];
+		}
+		return [this._randomStrings(maxLength, maxInputs, alphabet), true];
+	}
+
 	/**
 	 * Add any states reachable via empty transitions from the current states.
 	 * NFA must be mutable.
@@ -51,12 +237,44 @@ export default class RunnableNFA extends NFA {
 		for (const origin of origins) {
 			for (const [target, symbols] of this.transitionsFrom(origin)) {
 				if (symbols.has("")) {
-					this._current.add(target);
 					this._followedTransitions.set(origin + "-" + target, this._numRead);
-					this._followEmptyTransitions(target);
+					// Only follow on from new states, so that cycles of empty transitions end
+					if (!this._current.has(target)) {
+						this._current.add(target);
+						this._followEmptyTransitions(target);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Record the current states as a step of the trace.
+	 * @param symbol The symbol which was read.
+	 * @param produced The states reached on the symbol, with the states they were reached from.
+	 */
+	protected _traceStep(symbol: string, produced: Map<State, Set<State>>): ITraceStep {
+		const closure = Map<State, Set<State>>().asMutable();
+		for (const origin of this._current) {
+			for (const [target, symbols] of this.transitionsFrom(origin)) {
+				if (symbols.has("") && !produced.has(target)) {
+					closure.update(target, Set(), (origins) => origins.add(origin));
 				}
 			}
 		}
+		return {
+			closure: closure.asImmutable(),
+			produced,
+			states: Set(this._current.toArray()),
+			symbol,
+		};
+	}
+
+	/**
+	 * Get the input consumed so far this run (empty string if not running).
+	 */
+	get consumedInput(): string {
+		return this._trace.map((step) => step.symbol).join("");
 	}
 
 	/**
@@ -105,6 +323,14 @@ export default class RunnableNFA extends NFA {
 		}
 	}
 
+	/**
+	 * Get the trace of the current run: the states after each step, starting with the initial states
+	 * (empty if not running).
+	 */
+	get trace(): List<ITraceStep> {
+		return this._trace;
+	}
+
 	/**
 	 * Whether the DFA will accept its remaining input.
 	 */
@@ -115,6 +341,13 @@ export default class RunnableNFA extends NFA {
 		return this.mutableCopy().run().result === 1;
 	}
 
+	/**
+	 * Generate the strings over the alphabet which the NFA accepts, in shortlex order.
+	 */
+	acceptedStrings(options: IEnumerationOptions = {}): IterableIterator<string> {
+		return this._acceptedStrings(options);
+	}
+
 	/**
 	 * Return whether the NFA accepts the given input or not.
 	 * Does not mutate the NFA, even if it is mutable.
@@ -130,6 +363,83 @@ export default class RunnableNFA extends NFA {
 		return this.setInput(this._remainingInput + input);
 	}
 
+	/**
+	 * Compare the NFA against a JavaScript regex, which is anchored as ^(...)$, on all inputs up to a maximum length
+	 * (or on random inputs if there are too many). The inputs are over the alphabet, the symbols written literally in
+	 * the regex, and one symbol in neither, so that the regex accepting symbols the NFA cannot read is also caught.
+	 * @param regex The regex, as a string or RegExp.
+	 * @returns The inputs on which the NFA and the regex disagree, in shortlex order.
+	 * @throws A SyntaxError if the regex is invalid.
+	 */
+	checkAgainstRegExp(regex: string | RegExp, options: IOracleOptions = {}): IDisagreement[] {
+		const {maxLength = 6, maxInputs = 10000} = options;
+		const source = regex instanceof RegExp ? regex.source : regex;
+		const oracle = new RegExp("^(" + source + ")$");
+
+		// Symbols written in the regex, i.e. any character except syntax and escapes of character classes (e.g. \d)
+		const alphabet = Set<string>(this._alphabetSymbols()).asMutable();
+		for (let i = 0; i < source.length; i++) {
+			if (source[i] === "\\") {
+				i++;
+				if (i < source.length && !/[a-zA-Z0-9]/.test(source[i])) {
+					alphabet.add(source[i]);
+				}
+			} else if (!"^$.|?*+()[]{}".includes(source[i])) {
+				alphabet.add(source[i]);
+			}
+		}
+		let outside = "a".charCodeAt(0);
+		while (alphabet.has(String.fromCharCode(outside))) {
+			outside++;
+		}
+		alphabet.add(String.fromCharCode(outside));
+
+		const [inputs] = this._stringsUpTo(maxLength, maxInputs, alphabet.toArray());
+		const sorted = [...inputs].sort((a, b) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0));
+
+		const disagreements = [] as IDisagreement[];
+		for (const input of sorted) {
+			const accepted = this.accepts(input);
+			if (accepted !== oracle.test(input)) {
+				disagreements.push({accepted, input});
+			}
+		}
+		return disagreements;
+	}
+
+	/**
+	 * Build the tree of all the paths the NFA has followed this run, from the trace.
+	 * A state reached from more than one state appears once under each of them.
+	 * @param maxNodes The maximum number of nodes to build; any further branches are left out.
+	 * @returns The root node (the start state), or null if not running.
+	 */
+	computationTree(maxNodes: number = 1000): IComputationNode | null {
+		if (!this.isRunning) {
+			return null;
+		}
+		let remaining = maxNodes;
+		// path is the set of states visited via empty transitions on this step, to avoid following cycles
+		const build = (state: State, step: number, symbol: string, path: Set<State>): IComputationNode => {
+			remaining--;
+			const node = {children: [], state, step, symbol} as IComputationNode;
+			for (const [target, origins] of this._trace.get(step)!.closure) {
+				if (remaining > 0 && origins.has(state) && !path.has(target)) {
+					node.children.push(build(target, step, "", path.add(target)));
+				}
+			}
+			const next = this._trace.get(step + 1);
+			if (next) {
+				for (const [target, origins] of next.produced) {
+					if (remaining > 0 && origins.has(state)) {
+						node.children.push(build(target, step + 1, next.symbol, Set([target])));
+					}
+				}
+			}
+			return node;
+		};
+		return build(this._start, 0, "", Set([this._start]));
+	}
+
 	/**
 	 * Return whether the NFA has followed a given transition this run.
 	 */
@@ -137,6 +447,178 @@ export default class RunnableNFA extends NFA {
 		return this._followedTransitions.has(origin + "-" + target);
 	}
 
+	/**
+	 * Find which states and transitions are exercised by running the NFA on the given inputs.
+	 * Does not mutate the NFA.
+	 */
+	coverage(inputs: Iterable<string>): ICoverage {
+		const states = Set<State>().asMutable();
+		const transitions = Set<string>().asMutable();
+		for (const input of inputs) {
+			const nfa = this.mutableCopy().reset(input).run();
+			for (const step of nfa._trace) {
+				states.union(step.states);
+			}
+			transitions.union(nfa._followedTransitions.keys());
+		}
+		return {
+			states: states.asImmutable(),
+			transitions: transitions.asImmutable(),
+		};
+	}
+
+	/**
+	 * Explain why the NFA accepts or rejects an input.
+	 * If accepted, finds an accepting path with the fewest transitions (breadth-first, following transitions
+	 * in order). If rejected, finds where the last surviving branches were: either the states from which there
+	 * was no transition on the next symbol, or the non-accept states in which the input ended.
+	 * Does not mutate the NFA.
+	 */
+	explain(input: string): IExplanation {
+		const explanation: IExplanation = {
+			accepted: false,
+			path: [],
+			position: input.length,
+			states: Set(),
+		};
+
+		// Search the graph of (position in input, state) pairs, recording how each pair was first reached
+		const key = (position: number, state: State) => position + "-" + state;
+		const previous = Map<string, [number, State, string] | null>().asMutable().set(key(0, this._start), null);
+		const queue: Array<[number, State]> = [[0, this._start]];
+		for (let i = 0; i < queue.length; i++) {
+			const [position, state] = queue[i];
+			if (position === input.length && this.isAccept(state)) {
+				// Follow the path back to the start
+				let step: [number, State, string] | null = [position, state, ""];
+				const path = [] as IPathStep[];
+				while (step) {
+					const [stepPosition, stepState]: [number, State, string] = step;
+					const from: [number, State, string] | null = previous.get(key(stepPosition, stepState))!;
+					path.unshift({state: stepState, symbol: from ? from[2] : null});
+					step = from;
+				}
+				explanation.accepted = true;
+				explanation.path = path;
+				return explanation;
+			}
+			for (const [target, symbols] of this.transitionsFrom(state)) {
+				const next: Array<[number, string]> = [[position, ""], [position + 1, input[position]]];
+				for (const [nextPosition, symbol] of next) {
+					if (nextPosition <= input.length && symbols.has(symbol) && !previous.has(key(nextPosition, target))) {
+						previous.set(key(nextPosition, target), [position, state, symbol]);
+						queue.push([nextPosition, target]);
+					}
+				}
+			}
+		}
+
+		// Find the last step on which any branch survived
+		const trace = this.mutableCopy().reset(input).runComplete().trace;
+		const position = trace.findLastIndex((step) => step.states.size > 0);
+		explanation.position = Math.max(position, 0);
+		explanation.states = position >= 0 ? trace.get(position)!.states : Set();
+		return explanation;
+	}
+
+	/**
+	 * Generate test inputs from the NFA itself, in shortlex order without duplicates (see ITestGenerationOptions).
+	 */
+	generateTests(options: ITestGenerationOptions): IGeneratedTest[] {
+		const tests = Map<string, string>().asMutable(); // Input to reason
+		const add = (input: string | null, reason: string) => {
+			if (input !== null && !tests.has(input)) {
+				tests.set(input, reason);
+			}
+		};
+		const initial = this.closure([this._start]);
+		const step = (states: Set<State>, symbol: string) => this.closure(this.targets(states, symbol));
+		const statesKey = (states: Set<State>) => states.toArray().sort().join(",");
+
+		if (options.transitions) {
+			for (const origin of this._states) {
+				for (const [target, symbols] of this.transitionsFrom(origin)) {
+					// Nodes are the current states, and whether the transition has been followed
+					const follows = (states: Set<State>, symbol: string) => (
+						states.has(origin) && symbols.has(symbol)
+					);
+					const start: [Set<State>, boolean] = [initial, follows(initial, "")];
+					const next = ([states, followed]: [Set<State>, boolean], symbol: string): [Set<State>, boolean] => {
+						const nextStates = step(states, symbol);
+						return [nextStates, followed || follows(states, symbol) || follows(nextStates, "")];
+					};
+					const key = ([states, followed]: [Set<State>, boolean]) => followed + ":" + statesKey(states);
+					const transition = this.name(origin) + " → " + this.name(target);
+					add(this._shortestString(start, next, key, ([states, followed]) => (
+						followed && shareAny([states, this._accept])
+					)), "Follows " + transition + " and accepts");
+					add(this._shortestString(start, next, key, ([states, followed]) => (
+						followed && !shareAny([states, this._accept])
+					)), "Follows " + transition + " and rejects");
+				}
+			}
+		}
+
+		if (options.boundaries) {
+			for (const state of this._accept) {
+				add(this._shortestString(initial, step, statesKey, (states) => states.has(state)),
+					"Just reaches " + this.name(state));
+				// Nodes are the current states, and whether the state was current before the last symbol
+				add(this._shortestString<[Set<State>, boolean]>(
+					[initial, false],
+					([states], symbol) => [step(states, symbol), states.has(state)],
+					([states, wasCurrent]) => wasCurrent + ":" + statesKey(states),
+					([states, wasCurrent]) => wasCurrent && !states.has(state),
+				), "Just leaves " + this.name(state));
+			}
+		}
+
+		if (options.maxLength !== undefined) {
+			const {maxInputs = 1000, maxLength} = options;
+			const [inputs, random] = this._stringsUpTo(maxLength, maxInputs);
+			for (const input of inputs) {
+				add(input, (random ? "Random, length " : "Length ") + input.length);
+			}
+		}
+
+		return tests.sortBy((reason, input) => input, (a, b) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0))
+			.map((reason, input) => ({input, reason}))
+			.valueSeq()
+			.toArray();
+	}
+
+	/**
+	 * Move the run to the state it was in (or will be in) after the given number of symbols have been read,
+	 * stepping backwards over consumed input or forwards over remaining input.
+	 * Does nothing if not running.
+	 * @param step The number of symbols read, which is clamped to the length of the whole input.
+	 */
+	goToStep(step: number): this {
+		if (!this.isRunning || step === this._numRead) {
+			return this;
+		}
+		const nfa = this.mutable(true);
+
+		if (step > nfa._numRead) {
+			while (nfa._numRead < step && nfa._remainingInput) {
+				nfa.step();
+			}
+		} else {
+			step = Math.max(step, 0);
+			nfa._remainingInput = nfa.consumedInput.substr(step) + nfa._remainingInput;
+			nfa._numRead = step;
+			nfa._current = nfa._trace.get(step)!.states.asMutable();
+			nfa._followedTransitions = nfa._followedHistory.get(step)!.asMutable();
+			nfa._trace = nfa._trace.setSize(step + 1);
+			nfa._followedHistory = nfa._followedHistory.setSize(step + 1);
+		}
+
+		if (!this._mutable) {
+			nfa.immutable();
+		}
+		return nfa;
+	}
+
 	immutable(): this {
 		if (!this._mutable) {
 			return this;
@@ -160,6 +642,18 @@ export default class RunnableNFA extends NFA {
 		return this._followedTransitions.get(origin + "-" + target) === this._numRead;
 	}
 
+	/**
+	 * Generate the strings over the alphabet which the NFA rejects, in shortlex order.
+	 * Does not mutate the NFA. The complement is kept until the NFA's structure changes.
+	 */
+	rejectedStrings(options: IEnumerationOptions = {}): IterableIterator<string> {
+		if (!this._cache.complement) {
+			// A snapshot is complemented, since complement() would rewrite a mutable NFA in place
+			this._cache.complement = this._snapshot().complement();
+		}
+		return (this._cache.complement as this)._acceptedStrings(options);
+	}
+
 	/**
 	 * Set up the NFA to be run, resetting to the start state and erasing the input buffer.
 	 * @param input The (initial) input to add to the input buffer. If empty, will keep the previous input.
@@ -174,6 +668,8 @@ export default class RunnableNFA extends NFA {
 		nfa._followedTransitions = Map().asMutable() as Map<string, number>;
 		nfa._current = Set().asMutable().add(this.start);
 		nfa._followEmptyTransitions();
+		nfa._trace = List([nfa._traceStep("", Map([[this.start, Set<State>()]]))]);
+		nfa._followedHistory = List([Map(nfa._followedTransitions.toKeyedSeq())]);
 
 		if (!this._mutable) {
 			nfa.immutable();
@@ -247,8 +743,12 @@ export default class RunnableNFA extends NFA {
 		if (this.isRunning && this.isCurrentState(origin) && new SymbolGroup(symbols).has("")) {
 			const nfa = super.setTransition(origin, target, symbols).mutable(true);
 			nfa._current = nfa._current.asMutable();
+			nfa._followedTransitions = nfa._followedTransitions.asMutable();
 			nfa._current.add(target);
 			nfa._followEmptyTransitions(target);
+			const last = nfa._trace.last<ITraceStep>();
+			nfa._trace = nfa._trace.set(-1, nfa._traceStep(last.symbol, last.produced));
+			nfa._followedHistory = nfa._followedHistory.set(-1, Map(nfa._followedTransitions.toKeyedSeq()));
 			if (!this._mutable) {
 				nfa.immutable();
 			}
@@ -280,10 +780,12 @@ export default class RunnableNFA extends NFA {
 
 		// Follow each applicable transition from each of the current states
 		const newStates = Set().asMutable();
+		const produced = Map<State, Set<State>>().asMutable();
 		for (const origin of nfa._current) {
 			for (const [target, symbols] of nfa.transitionsFrom(origin)) {
 				if (symbols.has(symbol)) {
 					newStates.add(target);
+					produced.update(target, Set(), (origins) => origins.add(origin));
 					nfa._followedTransitions.set(origin + "-" + target, nfa._numRead);
 				}
 			}
@@ -292,6 +794,8 @@ export default class RunnableNFA extends NFA {
 
 		// And follow all empty transitions from the resultant states
 		nfa._followEmptyTransitions();
+		nfa._trace = nfa._trace.push(nfa._traceStep(symbol, produced.asImmutable()));
+		nfa._followedHistory = nfa._followedHistory.push(Map(nfa._followedTransitions.toKeyedSeq()));
 
 		if (!this._mutable) {
 			nfa.immutable();
@@ -299,6 +803,13 @@ export default class RunnableNFA extends NFA {
 		return nfa;
 	}
 
+	/**
+	 * Undo the last step of the run, putting its symbol back at the start of the remaining input.
+	 */
+	stepBack(): this {
+		return this.goToStep(this._numRead - 1);
+	}
+
 	/**
 	 * Stop running the NFA and erase the remaining input.
 	 */
@@ -311,6 +822,8 @@ export default class RunnableNFA extends NFA {
 		nfa._current = Set().asMutable();
 		nfa._followedTransitions = Map().asMutable() as Map<string, number>;
 		nfa._numRead = -1;
+		nfa._trace = List();
+		nfa._followedHistory = List();
 
 		if (!this._mutable) {
 			nfa.immutable();
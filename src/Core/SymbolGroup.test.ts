@@ -0,0 +1,17 @@
+import {Set} from 'immutable';
+import SymbolGroup from './SymbolGroup';
+
+describe('SymbolGroup.toString()', () => {
+	it('writes the empty symbol as ε, whether it was read as ε or ~', () => {
+		expect(new SymbolGroup("a ~").toString(", ", true)).toBe("ε, a");
+		expect(new SymbolGroup("ε b").toString(", ", true)).toBe("ε, b");
+		expect(new SymbolGroup("a ~").toString(", ")).toBe("a");
+	});
+
+	it('escapes a literal ε or ~ so that it is read back', () => {
+		const symbols = new SymbolGroup(Set(["", "ε", "~"]));
+		const written = symbols.toString(" ", true);
+		expect(written).toBe("ε \\~ \\ε");
+		expect(new SymbolGroup(written).equals(symbols)).toBe(true);
+	});
+});
@@ -70,7 +70,8 @@ const _fromSpecial = Map<string, Smbl>([
 	["\\f", "\f"],
 	["\\v", "\v"],
 ]);
-const _toSpecial = _fromSpecial.flip();
+// The forms in which the special symbols are written (ε for the empty symbol, rather than its alias ~)
+const _toSpecial = _fromSpecial.flip().set("", "ε");
 
 // Character ranges which are allowed.
 const allowedRanges = [] as CharRange[];
@@ -81,6 +82,42 @@ for (const range of ["A-Z", "a-z", "0-9", "А-Я", "а-я", "Α-Ω", "α-ω"]) {
 
 export {allowedRanges};
 
+/**
+ * Write a string (e.g. an input) using the same special codes as symbol groups: ε for the empty string,
+ * ␣ for a space, backslash sequences for \\, \n, etc., and a backslash before a literal ε, ~ or ␣.
+ * @param escape Any other characters which should be escaped with a backslash.
+ */
+export function escapeString(input: string, escape: string = ""): string {
+	if (input === "") {
+		return "ε";
+	}
+	let output = "";
+	for (const char of input) {
+		const special = _toSpecial.get(char);
+		if (special) {
+			output += special;
+		} else if (_fromSpecial.has(char) || escape.includes(char)) {
+			output += "\\" + char;
+		} else {
+			output += char;
+		}
+	}
+	return output;
+}
+
+/**
+ * Read a string written using the special codes of escapeString().
+ */
+export function unescapeString(input: string): string {
+	return input.replace(/\\?[\s\S]/gu, (match) => {
+		const special = _fromSpecial.get(match);
+		if (special !== undefined) {
+			return special;
+		}
+		return match.length > 1 && match[0] === "\\" ? match.substr(1) : match;
+	});
+}
+
 // All parameters which ask for a symbol group should also be able to accept an input string
 // which can be converted to one.
 export type SymbolGroupInput = SymbolGroup | string | Set<Smbl> | undefined;
@@ -200,7 +237,7 @@ export default class SymbolGroup {
 				if (matches) {
 					let match = matches[0];
 					const special = _fromSpecial.get(match);
-					if (special) {
+					if (special !== undefined) {
 						symbols.add(special);
 					} else {
 						// If there is still a backslash, remove it and use the raw character
@@ -224,7 +261,7 @@ export default class SymbolGroup {
 		}
 
 		this._symbols = symbols.sort() as OrderedSet<Smbl>;
-		this._normalized = this.toString(" ");
+		this._normalized = this.toString(" ", true);
 	}
 
 	/**
@@ -296,8 +333,8 @@ export default class SymbolGroup {
 			if (special) {
 				// Convert it to a special symbol if possible
 				return special;
-			} else if (symbol === delimiter || _fromSpecial.has(symbol)) {
-				// If the symbol is the delimiter, or has special meaning (like ε), it has to be escaped.
+			} else if (delimiter.includes(symbol) || _fromSpecial.has(symbol)) {
+				// If the symbol is (part of) the delimiter, or has special meaning (like ε), it has to be escaped.
 				return "\\" + symbol;
 			} else {
 				return symbol;
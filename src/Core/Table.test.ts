@@ -0,0 +1,54 @@
+import RunnableNFA, {IDefinition} from './RunnableNFA';
+
+const nfa = (definition: IDefinition) => new RunnableNFA().init(definition);
+
+// Names which look like empty cells, markers or separators
+const names = ["-", "∅", "—", "{}", "", "->x", "a\"b", "*x", "a|b, {c}", "\\"];
+
+describe('toTable() and fromTable()', () => {
+	it('round-trip an NFA with awkward names and symbols', () => {
+		const automaton = nfa({
+			accept: [1, 9],
+			n: names.length,
+			names,
+			transitions: names.map((_, state) => [
+				[(state + 1) % names.length, "a \\, | \""],
+				[(state + 3) % names.length, "~ ␣"],
+				[state, "\\\\"],
+			] as Array<[number, string]>),
+		});
+		for (const format of ['markdown', 'csv'] as const) {
+			const table = automaton.toTable(format);
+			expect(new RunnableNFA().fromTable(table, format).toDefinition()).toEqual(automaton.toDefinition());
+		}
+	});
+
+	it('round-trip a DFA', () => {
+		const automaton = nfa({
+			accept: [0],
+			n: 4,
+			names: ["-", "—", "", "a\"b"],
+			transitions: [[[1, "a"], [2, "b"]], [[3, "a b"]], [[0, "b"]], []],
+		});
+		for (const format of ['markdown', 'csv'] as const) {
+			const table = automaton.toTable(format);
+			expect(new RunnableNFA().fromTable(table, format).toDefinition()).toEqual(automaton.toDefinition());
+		}
+	});
+
+	it('reads a hand-written Markdown table', () => {
+		const table = [
+			"| δ   | a   | b   |",
+			"|-----|-----|-----|",
+			"| →*p | q   | -   |",
+			"| q   | -   | -   |",
+		].join("\n");
+		expect(new RunnableNFA().fromTable(table, 'markdown').toDefinition()).toEqual({
+			accept: [0],
+			alphabet: "a b",
+			n: 2,
+			names: ["p", "q"],
+			transitions: [[[1, "a"]], []],
+		});
+	});
+});
@@ -0,0 +1,226 @@
+import {List, Map, Set} from 'immutable';
+import {readCSV, writeCSV} from '../Util/csv';
+import {escapeXML} from './JFF';
+import {IDefinition} from './NFA';
+import SymbolGroup, {unescapeString} from './SymbolGroup';
+
+/**
+ * Transition (δ) tables, written as Markdown, CSV or HTML (see NFA.toTable()), and read back from Markdown or CSV.
+ *
+ * The first row has a header for each symbol (using the same special codes as symbol groups, so ε is the empty symbol),
+ * and each other row has a state's name followed by the states it transitions to on each symbol:
+ *     | δ    | a        | b  | ε  |
+ *     |------|----------|----|----|
+ *     | →q0  | {q0, q1} | ∅  | ∅  |
+ *     | *q1  | ∅        | q0 | ∅  |
+ * → (or ->) marks the start state and * marks accept states. Cells may contain sets in braces or single names,
+ * and ∅, - or nothing for no states. In names, \ escapes the next character, e.g. \, for a comma or \- for a state
+ * named -, and "" is the empty name.
+ * If there is no start marker, the first state is the start state.
+ */
+
+export type TableFormat = 'markdown' | 'csv' | 'html';
+
+/**
+ * Error thrown when a table cannot be parsed.
+ */
+export class TableSyntaxError extends Error {
+	// The line of the table on which the error occurred
+	line: number;
+
+	constructor(message: string, line: number) {
+		super(message + " (on line " + line + ")");
+		Object.setPrototypeOf(this, TableSyntaxError.prototype);
+		this.line = line;
+	}
+}
+
+const _emptyCells = ["", "∅", "-", "—", "{}"];
+
+/**
+ * Escape a state name so that it can be read back from a cell.
+ */
+function escapeName(name: string): string {
+	if (name === "") {
+		return "\"\"";
+	}
+	// Names which would be read as no states or as markers need their first character escaped
+	return name.replace(/[\\,{}|"]/g, "\\$&").replace(/^[*→>∅—-]/, "\\$&");
+}
+
+/**
+ * Split a string on unescaped occurrences of a delimiter, keeping escape sequences.
+ */
+function splitUnescaped(text: string, delimiter: string): string[] {
+	const parts = [""];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === "\\" && i + 1 < text.length) {
+			parts[parts.length - 1] += text.substr(i, 2);
+			i++;
+		} else if (text[i] === delimiter) {
+			parts.push("");
+		} else {
+			parts[parts.length - 1] += text[i];
+		}
+	}
+	return parts;
+}
+
+/**
+ * Read a state name written by escapeName().
+ */
+function unescapeName(name: string): string {
+	return name === "\"\"" ? "" : name.replace(/\\([\s\S])/g, "$1");
+}
+
+/**
+ * Get the label of a state's row.
+ */
+export function stateLabel(name: string, start: boolean, accept: boolean): string {
+	return (start ? "→" : "") + (accept ? "*" : "") + escapeName(name);
+}
+
+/**
+ * Get the contents of a cell with the names of some states.
+ * @param asSet Whether to write the states as a set (as for NFAs) rather than a single name (as for DFAs).
+ */
+export function targetsCell(names: string[], asSet: boolean): string {
+	if (!asSet) {
+		return names.length === 0 ? "-" : escapeName(names[0]);
+	}
+	return names.length === 0 ? "∅" : "{" + names.map(escapeName).join(", ") + "}";
+}
+
+/**
+ * Write a table whose first row and column are headers.
+ */
+export function writeTable(cells: string[][], format: TableFormat): string {
+	if (format === 'markdown') {
+		const widths = cells[0].map((_, column) => Math.max(3, ...cells.map((row) => [...row[column]].length)));
+		const line = (row: string[]) => "| " + row.map((cell, column) => cell + " ".repeat(widths[column] - [...cell].length)).join(" | ") + " |";
+		return [
+			line(cells[0]),
+			"|" + widths.map((width) => "-".repeat(width + 2)).join("|") + "|",
+			...cells.slice(1).map(line),
+		].join("\n") + "\n";
+	}
+	if (format === 'csv') {
+		return writeCSV(cells);
+	}
+	const html = (tag: string, cell: string) => "<" + tag + ">" + escapeXML(cell) + "</" + tag + ">";
+	return [
+		"<table>",
+		"\t<thead>",
+		"\t\t<tr>" + cells[0].map((cell) => html("th", cell)).join("") + "</tr>",
+		"\t</thead>",
+		"\t<tbody>",
+		...cells.slice(1).map((row) => "\t\t<tr>" + html("th", row[0]) + row.slice(1).map((cell) => html("td", cell)).join("") + "</tr>"),
+		"\t</tbody>",
+		"</table>",
+	].join("\n") + "\n";
+}
+
+/**
+ * Build an NFA definition from a transition table in Markdown or CSV (see above).
+ * @throws TableSyntaxError If the table is invalid.
+ */
+export function tableToDefinition(table: string, format: 'markdown' | 'csv'): IDefinition {
+	// Split the table into rows of cells, skipping blank lines and Markdown's header separator
+	// (which can only come straight after the header, so that rows of dashes for no states are kept)
+	let rows = [] as Array<[string[], number]>; // The cells and line number of each row
+	if (format === 'csv') {
+		rows = readCSV(table);
+	} else {
+		table.split(/\r?\n/).forEach((line, index) => {
+			if (line.trim() === "" || (rows.length === 1 && /^[\s|:-]+$/.test(line))) {
+				return;
+			}
+			const cells = splitUnescaped(line.trim(), "|");
+			// Remove the empty cells outside the outer pipes
+			rows.push([
+				cells.slice(cells[0].trim() === "" ? 1 : 0, cells[cells.length - 1].trim() === "" ? -1 : undefined),
+				index + 1,
+			]);
+		});
+	}
+	rows = rows.map(([cells, line]) => [cells.map((cell) => cell.trim()), line] as [string[], number]);
+	if (rows.length === 0) {
+		throw new TableSyntaxError("The table is empty", 1);
+	}
+
+	// Read the symbols from the header
+	const [header, headerLine] = rows[0];
+	const symbols = header.slice(1).map((cell) => {
+		const symbol = unescapeString(cell);
+		if ([...symbol].length > 1) {
+			throw new TableSyntaxError("\"" + cell + "\" is not a single symbol", headerLine);
+		}
+		return symbol;
+	});
+
+	// Read the states' names and whether they are start or accept states
+	const names = [] as string[];
+	let start: number | undefined;
+	let accept = Set<number>();
+	for (const [[label], line] of rows.slice(1)) {
+		const markers = label.match(/^(→|->|>|\*|\s)*/)![0];
+		const name = unescapeName(label.substr(markers.length).trim());
+		if (names.includes(name)) {
+			throw new TableSyntaxError("There are two states named \"" + name + "\"", line);
+		}
+		if (/→|>/.test(markers)) {
+			if (start !== undefined) {
+				throw new TableSyntaxError("There can only be one start state", line);
+			}
+			start = names.length;
+		}
+		if (markers.includes("*")) {
+			accept = accept.add(names.length);
+		}
+		names.push(name);
+	}
+
+	// Read the transitions
+	const transitions = names.map(() => Map<number, Set<string>>().asMutable());
+	rows.slice(1).forEach(([cells, line], origin) => {
+		if (cells.length > symbols.length + 1) {
+			throw new TableSyntaxError("There are more cells than symbols", line);
+		}
+		cells.slice(1).forEach((cell, column) => {
+			if (_emptyCells.includes(cell)) {
+				return;
+			}
+			const inner = cell[0] === "{" && cell[cell.length - 1] === "}" ? cell.slice(1, -1) : cell;
+			for (const target of splitUnescaped(inner, ",")) {
+				const index = names.indexOf(unescapeName(target.trim()));
+				if (index < 0) {
+					throw new TableSyntaxError("There is no state named \"" + target.trim() + "\"", line);
+				}
+				transitions[origin].update(index, Set<string>(), (targetSymbols) => targetSymbols.add(symbols[column]));
+			}
+		});
+	});
+
+	// Put the start state first
+	const order = List(names.map((_, index) => index))
+		.sortBy((index) => index === start ? -1 : index);
+	const indices = Map<number, number>(order.map((index, position) => [index, position] as [number, number]));
+	const definition: IDefinition = {
+		accept: accept.map((index) => indices.get(index)!).toArray(),
+		n: names.length,
+		names: order.map((index) => names[index]).toArray(),
+		transitions: order.map((index) => (
+			transitions[index]
+				.entrySeq()
+				.map(([target, targetSymbols]) => [indices.get(target)!, new SymbolGroup(targetSymbols).toString(" ", true)] as [number, string])
+				.toArray()
+		)).toArray(),
+	};
+
+	// Keep any symbols without transitions in the alphabet
+	const used = transitions.reduce((all, targets) => all.union(...targets.values()), Set<string>());
+	if (symbols.some((symbol) => symbol !== "" && !used.includes(symbol))) {
+		definition.alphabet = new SymbolGroup(Set(symbols.filter((symbol) => symbol !== ""))).toString(" ", false);
+	}
+	return definition;
+}
@@ -0,0 +1,83 @@
+import * as React from 'react';
+
+import RunnableNFA, {IComputationNode} from '../../Core/RunnableNFA';
+
+import './ComputationTree.css';
+
+interface IProps {
+	nfa: RunnableNFA,
+};
+interface IState {
+	open: boolean,
+};
+
+/**
+ * Shows every path the NFA has followed on the input read so far, as a collapsible tree.
+ * The tree is only built while it is open, since it can be large and changes on every step.
+ */
+export default class ComputationTree extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			open: false,
+		};
+	}
+
+	renderNode(node: IComputationNode, key: number) {
+		const nfa = this.props.nfa;
+		const current = node.step === nfa.numRead;
+		const dead = !current && node.children.length === 0;
+		const className = "state" + (current ? " current" : "") + (nfa.isAccept(node.state) ? " accept" : "")
+			+ (dead ? " dead" : "");
+		const label = (
+			<span>
+				{node.step > 0 || node.symbol ? (node.symbol ? node.symbol : "ε") + " → " : ""}
+				<span
+					className={className}
+					title={dead ? "This branch died." : undefined}
+				>
+					{nfa.name(node.state)}
+				</span>
+			</span>
+		);
+
+		if (node.children.length === 0) {
+			return <li key={key}>{label}</li>;
+		}
+		return (
+			<li key={key}>
+				<details open={true}>
+					<summary>{label}</summary>
+					<ul>
+						{node.children.map((child, index) => this.renderNode(child, index))}
+					</ul>
+				</details>
+			</li>
+		);
+	}
+
+	render() {
+		if (!this.props.nfa.isRunning) {
+			return null;
+		}
+		const tree = this.state.open ? this.props.nfa.computationTree() : null;
+
+		return (
+			<details className="ComputationTree" open={this.state.open}>
+				<summary onClick={this.toggle}>Computation tree</summary>
+				{tree ? (
+					<ul>
+						{this.renderNode(tree, 0)}
+					</ul>
+				) : null}
+			</details>
+		);
+	}
+
+	toggle = (e: React.MouseEvent<any>) => {
+		// The open attribute is controlled here, rather than by the browser
+		e.preventDefault();
+		this.setState((prevState) => ({open: !prevState.open}));
+	}
+}
@@ -1,21 +1,88 @@
+import {Set} from 'immutable';
 import * as React from 'react';
-import RunnableNFA from '../../Core/RunnableNFA';
+import RunnableNFA, {State} from '../../Core/RunnableNFA';
 import './ControlPanel.css';
 
 interface IProps {
 	nfa: RunnableNFA,
+	breakpoints: Set<State>,
 	addState: () => any,
 	back: () => any,
 	clear: () => any,
 	editAlphabet: () => any,
+	goToStep: (step: number) => any,
 	reset: () => any,
 	run: () => any,
 	setInput: (input: string) => any,
 	stop: () => any,
 	step: () => any,
+	stepBack: () => any,
 };
+interface IState {
+	pauseOnReject: boolean,
+	playing: boolean,
+	speed: number, // Steps per second
+};
+
+export default class ControlPanel extends React.PureComponent<IProps, IState> {
+	timer?: number;
+
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			pauseOnReject: true,
+			playing: false,
+			speed: 2,
+		};
+	}
+
+	componentDidUpdate(prevProps: IProps, prevState: IState) {
+		if (!this.state.playing) {
+			return;
+		}
+		const nfa = this.props.nfa;
+		if (!nfa.isRunning && prevProps.nfa.isRunning) {
+			// The run was stopped
+			this.pause();
+			return;
+		}
+		if (nfa.numRead !== prevProps.nfa.numRead && nfa.isRunning) {
+			// Pause if the step reached a breakpoint or a definite rejection
+			if (nfa.currentStates.some((state) => this.props.breakpoints.has(state))
+				|| (this.state.pauseOnReject && nfa.result === -1)) {
+				this.pause();
+				return;
+			}
+		}
+		if (!nfa.remainingInput) {
+			this.pause();
+		} else if (this.state.speed !== prevState.speed || !prevState.playing) {
+			this.startTimer();
+		}
+	}
+
+	componentWillUnmount() {
+		window.clearInterval(this.timer);
+	}
+
+	pause() {
+		window.clearInterval(this.timer);
+		this.setState({playing: false});
+	}
+
+	play() {
+		this.setState({playing: true});
+	}
+
+	/**
+	 * (Re)start the timer which steps the NFA while playing.
+	 */
+	startTimer() {
+		window.clearInterval(this.timer);
+		this.timer = window.setInterval(() => this.props.step(), 1000 / this.state.speed);
+	}
 
-export default class ControlPanel extends React.PureComponent<IProps> {
 	render() {
 		const nfa = this.props.nfa;
 		return (
@@ -45,7 +112,32 @@ export default class ControlPanel extends React.PureComponent<IProps> {
 					>
 						Run
 					</button>
-					<button type="button" className="btn btn-default" onClick={() => this.props.back()}>Undo</button>
+					<button
+						type="button"
+						className="btn btn-default"
+						onClick={() => this.state.playing ? this.pause() : this.play()}
+						disabled={!this.state.playing && !nfa.remainingInput}
+						title={this.state.playing ? "Pause" : "Step automatically, pausing at breakpoints."}
+					>
+						<i className={"fa fa-" + (this.state.playing ? "pause" : "play")}/>
+					</button>
+					<button
+						type="button"
+						className="btn btn-default"
+						onClick={() => this.props.stepBack()}
+						disabled={nfa.numRead <= 0}
+						title={"Undo the last step of the run."}
+					>
+						Step Back
+					</button>
+					<button
+						type="button"
+						className="btn btn-default"
+						onClick={() => this.props.back()}
+						title={"Undo the last change to the automaton."}
+					>
+						Undo
+					</button>
 					<button
 						type="button"
 						className="btn btn-default"
@@ -54,6 +146,23 @@ export default class ControlPanel extends React.PureComponent<IProps> {
 					>
 						Stop
 					</button>
+					<input
+						type="range"
+						className="speed-slider"
+						min={0.5}
+						max={10}
+						step={0.5}
+						value={this.state.speed}
+						title={this.state.speed + " steps per second"}
+						onChange={(e) => this.setState({speed: parseFloat(e.target.value)})}
+					/>
+					<label title={"Pause when the input can no longer be accepted."}>
+						<input
+							type="checkbox"
+							checked={this.state.pauseOnReject}
+							onChange={(e) => this.setState({pauseOnReject: e.target.checked})}
+						/> Pause on reject
+					</label>
 					<label>Alphabet: </label>
 					<span
 						className={"click-editable" + (nfa.hasSetAlphabet ? "" : " implicit-alphabet")}
@@ -62,6 +171,21 @@ export default class ControlPanel extends React.PureComponent<IProps> {
 						{nfa.alphabet.toString(", ", false)}
 					</span>
 				</form>
+				{nfa.isRunning ? (
+					<div className="form-inline">
+						<label>Step {nfa.numRead} of {nfa.numRead + nfa.remainingInput.length}:</label>&nbsp;
+						<input
+							type="range"
+							className="simulation-slider"
+							min={0}
+							max={nfa.numRead + nfa.remainingInput.length}
+							value={nfa.numRead}
+							onChange={(e) => this.props.goToStep(parseInt(e.target.value, 10))}
+						/>&nbsp;
+						<span className="consumed-input">{nfa.consumedInput}</span>
+						<span className="remaining-input">{nfa.remainingInput}</span>
+					</div>
+				) : null}
 			</div>
 		);
 	}
@@ -0,0 +1,66 @@
+import * as React from 'react';
+
+interface IProps {
+	exportDiagram: (format: 'svg' | 'png', highlighting: boolean, scale: number) => any,
+};
+interface IState {
+	highlighting: boolean,
+	scale: number,
+};
+
+/**
+ * Options for downloading the visual editor's diagram as an SVG or PNG image.
+ */
+export default class DiagramExport extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			highlighting: false,
+			scale: 2,
+		};
+	}
+
+	render() {
+		return (
+			<form className="DiagramExport form-inline" onSubmit={(e) => e.preventDefault()}>
+				<label>Diagram</label>
+				<br/>
+				<div className="checkbox">
+					<label>
+						<input
+							type="checkbox"
+							checked={this.state.highlighting}
+							onChange={(e) => this.setState({highlighting: e.target.checked})}
+						/> Include simulation highlighting
+					</label>
+				</div>
+				<br/>
+				<button
+					type="button"
+					className="btn btn-default"
+					onClick={() => this.props.exportDiagram('svg', this.state.highlighting, 1)}
+				>
+					Download SVG
+				</button>
+				&nbsp;
+				<button
+					type="button"
+					className="btn btn-default"
+					onClick={() => this.props.exportDiagram('png', this.state.highlighting, this.state.scale)}
+				>
+					Download PNG
+				</button>
+				&nbsp;at&nbsp;
+				<select
+					className="form-control"
+					value={this.state.scale}
+					onChange={(e) => this.setState({scale: Number(e.target.value)})}
+				>
+					{[1, 2, 3, 4].map((scale) => <option key={scale} value={scale}>{scale}×</option>)}
+				</select>
+				&nbsp;scale
+			</form>
+		);
+	}
+}
@@ -0,0 +1,167 @@
+import * as React from 'react';
+
+import RunnableNFA from '../../Core/RunnableNFA';
+
+interface IProps {
+	nfa: RunnableNFA,
+	getOperand: () => RunnableNFA | null,
+	runOnInput: (input: string) => any,
+};
+interface IState {
+	message: string,
+	witness: string | null,
+};
+
+/**
+ * Checks properties of the NFA's language against another automaton, showing a witness string when the
+ * check fails.
+ */
+export default class LanguageChecker extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			message: "",
+			witness: null,
+		};
+	}
+
+	componentDidUpdate(prevProps: IProps) {
+		// Clear the result once the automaton has changed, since it no longer applies
+		// (but not when it has only been run, e.g. to visualize the witness)
+		if (this.state.message && !this.props.nfa.hasSameStructure(prevProps.nfa)) {
+			this.setState({
+				message: "",
+				witness: null,
+			});
+		}
+	}
+
+	checkEmptiness() {
+		this.showResult(
+			this.props.nfa.isEmpty(),
+			"The automaton accepts no strings.",
+			(witness) => "The automaton is not empty: it accepts " + this.quote(witness) + ".",
+		);
+	}
+
+	checkEquivalence() {
+		const operand = this.props.getOperand();
+		if (!operand) {
+			return;
+		}
+		this.showResult(
+			this.props.nfa.equivalentTo(operand),
+			"The automata are equivalent.",
+			(witness) => "The automata are not equivalent: " + this.quote(witness) + " is accepted by "
+				+ (this.props.nfa.accepts(witness) ? "this automaton but not the other." : "the other automaton but not this one."),
+		);
+	}
+
+	checkInclusion() {
+		const operand = this.props.getOperand();
+		if (!operand) {
+			return;
+		}
+		this.showResult(
+			this.props.nfa.isSubsetOf(operand),
+			"Every string accepted by this automaton is also accepted by the other.",
+			(witness) => this.quote(witness) + " is accepted by this automaton but not the other.",
+		);
+	}
+
+	checkUniversality() {
+		this.showResult(
+			this.props.nfa.isUniversal(),
+			"The automaton accepts every string over its alphabet.",
+			(witness) => "The automaton is not universal: it rejects " + this.quote(witness) + ".",
+		);
+	}
+
+	/**
+	 * Quote an input string for display, showing the empty string as ε.
+	 */
+	quote(input: string): string {
+		return input === "" ? "ε" : "\"" + input + "\"";
+	}
+
+	/**
+	 * Show the result of a check.
+	 * @param result The result: true, or a witness string if the check failed.
+	 * @param success The message to show if the check succeeded.
+	 * @param failure Function which returns the message to show for a given witness string.
+	 */
+	showResult(result: true | string, success: string, failure: (witness: string) => string) {
+		if (result === true) {
+			this.setState({
+				message: success,
+				witness: null,
+			});
+		} else {
+			this.setState({
+				message: failure(result),
+				witness: result,
+			});
+		}
+	}
+
+	render() {
+		return (
+			<div className="LanguageChecker">
+				<button
+					type="button"
+					className="btn btn-default"
+					title={"Check whether both automata accept exactly the same strings."}
+					onClick={() => this.checkEquivalence()}
+				>
+					Check equivalence
+				</button>
+				<br/>
+				<br/>
+				<button
+					type="button"
+					className="btn btn-default"
+					title={"Check whether every string accepted by this automaton is also accepted by the other."}
+					onClick={() => this.checkInclusion()}
+				>
+					Check inclusion
+				</button>
+				<br/>
+				<br/>
+				<button
+					type="button"
+					className="btn btn-default"
+					title={"Check whether this automaton accepts every string over its alphabet."}
+					onClick={() => this.checkUniversality()}
+				>
+					Check universality
+				</button>
+				<br/>
+				<br/>
+				<button
+					type="button"
+					className="btn btn-default"
+					title={"Check whether this automaton accepts no strings at all."}
+					onClick={() => this.checkEmptiness()}
+				>
+					Check emptiness
+				</button>
+				{this.state.message ? (
+					<div>
+						<br/>
+						<p>{this.state.message}</p>
+						{this.state.witness !== null ? (
+							<button
+								type="button"
+								className="btn btn-default"
+								onClick={() => this.props.runOnInput(this.state.witness as string)}
+							>
+								Visualize
+							</button>
+						) : null}
+					</div>
+				) : null}
+			</div>
+		);
+	}
+}
@@ -0,0 +1,87 @@
+import * as React from 'react';
+
+import RunnableNFA from '../../Core/RunnableNFA';
+
+import './LanguageProperties.css';
+
+interface IProps {
+	nfa: RunnableNFA,
+};
+interface IState {
+	maxLength: number,
+};
+
+/**
+ * Write a count, marking it as approximate if it is too large to be exact.
+ */
+function formatCount(count: number): string {
+	return Number.isSafeInteger(count) ? String(count) : "≈" + count.toPrecision(4);
+}
+
+/**
+ * Shows the size of the NFA's language, and how many strings of each length it accepts.
+ */
+export default class LanguageProperties extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			maxLength: 8,
+		};
+	}
+
+	setMaxLength(maxLength: number) {
+		if (maxLength >= 0) {
+			this.setState({maxLength});
+		}
+	}
+
+	render() {
+		const nfa = this.props.nfa;
+		const size = nfa.languageSize();
+		const counts = nfa.countByLength(this.state.maxLength);
+		const alphabetSize = nfa.alphabet.subtract("").size;
+
+		return (
+			<div className="LanguageProperties">
+				<p>
+					<label>Language size:</label> {size === Infinity ? "infinite" : formatCount(size) + (size === 1 ? " string" : " strings")}
+				</p>
+				<div className="form-inline">
+					<label>Strings of length up to</label>&nbsp;
+					<input
+						type="number"
+						className="form-control"
+						min={0}
+						value={this.state.maxLength}
+						onChange={(e) => this.setMaxLength(parseInt(e.target.value, 10))}
+					/>
+				</div>
+				<table className="table table-condensed">
+					<thead>
+						<tr>
+							<th>Length</th>
+							<th>Accepted</th>
+							<th>Density</th>
+						</tr>
+					</thead>
+					<tbody>
+						{counts.map((count, length) => {
+							const total = Math.pow(alphabetSize, length);
+							const density = total ? count / total : 0;
+							return (
+								<tr key={length}>
+									<td>{length}</td>
+									<td>{formatCount(count)}</td>
+									<td title={(density * 100).toFixed(2) + "% of the strings of this length"}>
+										<div className="density-bar" style={{width: (density * 100) + "%"}}/>
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,88 @@
+import * as React from 'react';
+
+import RunnableNFA from '../../Core/RunnableNFA';
+
+interface IProps {
+	nfa: RunnableNFA,
+	addInputs: (inputs: string[], expected: boolean) => any,
+	runOnInput: (input: string) => any,
+};
+interface IState {
+	count: number,
+};
+
+/**
+ * Lists the first strings (in shortlex order) which the NFA accepts and rejects.
+ */
+export default class LanguageSample extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			count: 10,
+		};
+	}
+
+	setCount(count: number) {
+		if (count >= 0) {
+			this.setState({count});
+		}
+	}
+
+	renderList(label: string, strings: string[], accepted: boolean) {
+		return (
+			<div className="col-sm-6">
+				<label>{label}</label>
+				<ul className="list-unstyled">
+					{strings.map((input) => (
+						<li key={input}>
+							<button
+								type="button"
+								className="btn btn-link btn-xs"
+								title={"Visualize"}
+								onClick={() => this.props.runOnInput(input)}
+							>
+								{input === "" ? "ε" : input}
+							</button>
+						</li>
+					))}
+				</ul>
+				{strings.length === 0 ? <p>None</p> : null}
+				<button
+					type="button"
+					className="btn btn-default"
+					disabled={strings.length === 0}
+					onClick={() => this.props.addInputs(strings, accepted)}
+				>
+					Add to test inputs
+				</button>
+			</div>
+		);
+	}
+
+	render() {
+		const accepted = [...this.props.nfa.acceptedStrings({limit: this.state.count})];
+		const rejected = [...this.props.nfa.rejectedStrings({limit: this.state.count})];
+
+		return (
+			<div className="LanguageSample">
+				<div className="form-inline">
+					<label>Show the first</label>&nbsp;
+					<input
+						type="number"
+						className="form-control"
+						min={0}
+						value={this.state.count}
+						onChange={(e) => this.setCount(parseInt(e.target.value, 10))}
+					/>&nbsp;
+					<label>strings</label>
+				</div>
+				<br/>
+				<div className="row">
+					{this.renderList("Accepted", accepted, true)}
+					{this.renderList("Rejected", rejected, false)}
+				</div>
+			</div>
+		);
+	}
+}
@@ -1,13 +1,27 @@
-import {List, OrderedMap} from 'immutable';
+import {List, Map, OrderedMap, Set} from 'immutable';
 import * as React from 'react';
 
-import RunnableNFA, {State} from '../Core/RunnableNFA';
+import {DotSyntaxError} from '../Core/Dot';
+import {JFFSyntaxError} from '../Core/JFF';
+import {regexToDefinition} from '../Core/Regex';
+import RunnableNFA, {ICoverage, IDisagreement, Position, State, TransitionMap} from '../Core/RunnableNFA';
 import SymbolGroup, {allowedRanges} from '../Core/SymbolGroup';
+import {TableSyntaxError} from '../Core/Table';
+import {download} from '../Util/general';
 
+import ComputationTree from './ComputationTree/ComputationTree';
 import ControlPanel from './ControlPanel/ControlPanel';
+import DiagramExport from './DiagramExport/DiagramExport';
+import LanguageChecker from './LanguageChecker/LanguageChecker';
+import LanguageProperties from './LanguageProperties/LanguageProperties';
+import LanguageSample from './LanguageSample/LanguageSample';
+import OperandSelect, {ISavedNFA} from './OperandSelect/OperandSelect';
+import RegexOracle from './RegexOracle/RegexOracle';
+import RegexView from './RegexView/RegexView';
 // import ListEditor from './ListEditor/ListEditor';
-import TestInputEditor from './TestInputEditor/TestInputEditor';
-import VisualEditor from './VisualEditor/VisualEditor';
+import TestInputEditor, {ITestInput} from './TestInputEditor/TestInputEditor';
+import {testsFromJSON} from './TestInputEditor/formats';
+import VisualEditor, {layOut} from './VisualEditor/VisualEditor';
 
 import presets from './presets';
 
@@ -21,37 +35,96 @@ import './NFAEditor.css';
 const _tabs = OrderedMap([
 	['instructions', "Instructions"],
 	['test', "Test Inputs"],
+	['sample', "Sample"],
 	['presets', "Presets"],
 	['transform', "Transform"],
+	['compare', "Compare"],
+	['properties', "Properties"],
 	['port', "Import/Export"],
 ] as Array<[Tab, string]>);
 
+interface IPortFormat {
+	extension: string,
+	importable: boolean,
+	name: string,
+};
+
+const _portFormats = OrderedMap([
+	['json', {extension: ".json", importable: true, name: "JSON"}],
+	['dot', {extension: ".dot", importable: true, name: "Graphviz DOT"}],
+	['jff', {extension: ".jff", importable: true, name: "JFLAP (.jff)"}],
+	['tikz', {extension: ".tex", importable: false, name: "LaTeX (TikZ)"}],
+	['markdown', {extension: ".md", importable: true, name: "Transition table (Markdown)"}],
+	['csv', {extension: ".csv", importable: true, name: "Transition table (CSV)"}],
+	['html', {extension: ".html", importable: false, name: "Transition table (HTML)"}],
+] as Array<[PortFormat, IPortFormat]>);
+
+/**
+ * Get the message to show when an import fails: the parser's own message if it has a helpful one.
+ */
+function importErrorMessage(e: Error): string {
+	return e instanceof DotSyntaxError || e instanceof JFFSyntaxError || e instanceof TableSyntaxError
+		? e.message : "Invalid input.";
+}
+
 const EDIT_SYMBOLS_DELIMITER = " ";
 
 interface IState {
 	nfa: RunnableNFA,
+	breakpoints: Set<State>,
 	editor: EditorType,
 	importing: string,
+	operand: string,
+	portFormat: PortFormat,
+	regex: string,
+	saved: List<ISavedNFA>,
+	showCoverage: boolean,
 	tab: Tab,
-	testInputs: List<string>,
+	testInputs: List<ITestInput>,
 };
 type EditorType = 'visual' | 'list';
-type Tab = 'test' | 'presets' | 'instructions' | 'transform' | 'port';
+type Tab = 'test' | 'sample' | 'presets' | 'instructions' | 'transform' | 'compare' | 'properties' | 'port';
+type PortFormat = 'json' | 'dot' | 'jff' | 'tikz' | 'markdown' | 'csv' | 'html';
+type BinaryOperation = 'union' | 'intersect' | 'difference' | 'xor' | 'concat';
 
 export default class NFAEditor extends React.PureComponent<{}, IState> {
+	// The last coverage of the test inputs found, with what it was found for (see getCoverage())
+	private coverage: {
+		coverage: ICoverage,
+		inputs: List<ITestInput>,
+		start: State,
+		transitions: TransitionMap,
+	} | null;
+
 	private history: RunnableNFA[];
 
+	// For each preset, the inputs on which it disagrees with its regex
+	private presetChecks: IDisagreement[][];
+
+	private visualEditor: React.RefObject<VisualEditor>;
+
 	constructor(props: {}) {
 		super(props);
 
+		this.coverage = null;
 		this.history = [];
+		this.visualEditor = React.createRef();
+		this.presetChecks = presets.map((preset) => (
+			new RunnableNFA().init(preset.definition).checkAgainstRegExp(preset.regex)
+		));
 
 		this.state = {
+			breakpoints: Set(),
 			editor: 'visual',
 			importing: "",
-			nfa: new RunnableNFA().init((presets as any)[0].definition),
+			nfa: layOut(new RunnableNFA().init((presets as any)[0].definition)),
+			operand: "preset:0",
+			portFormat: 'json',
+			regex: "",
+			saved: List(),
+			showCoverage: false,
 			tab: 'instructions',
-			testInputs: List([""]),
+			testInputs: List([{input: ""}]),
 		};
 
 		(window as any).nfa = this.state.nfa; // For debugging
@@ -64,6 +137,8 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 	render() {
 		const nfa = this.state.nfa;
 		const editor = this.state.editor;
+		const coverage = this.state.showCoverage || this.state.tab === 'test' ? this.getCoverage() : null;
+		const portFormat = _portFormats.get(this.state.portFormat)!;
 		return ((
 			<div className="row">
 				<div className="col-md-3">
@@ -93,9 +168,21 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 					<div style={this.displayIf(this.state.tab === 'test')}>
 						<TestInputEditor
 							nfa={nfa}
+							coverage={coverage}
+							inputs={this.state.testInputs}
 							runOnInput={(input) => this.reset(input)}
+							setInputs={this.setTestInputs}
+							showCoverage={this.state.showCoverage}
+							toggleCoverage={this.toggleCoverage}
 						/>
 					</div>
+					{this.state.tab === 'sample' ? (
+						<LanguageSample
+							nfa={nfa}
+							addInputs={this.addTestInputs}
+							runOnInput={(input) => this.reset(input)}
+						/>
+					) : null}
 					<div style={this.displayIf(this.state.tab === 'instructions')}>
 						<label>Editing symbols</label>
 						<p>Click the symbols of a transition to edit them.</p>
@@ -106,6 +193,9 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 							Common backslash sequences are recognized (\n, \\, etc.).
 							You can also use a backslash before a space or a comma.
 						</p>
+						<p>
+							Use ε or ~ (or leave the symbols blank) for an empty transition.
+						</p>
 						<p>
 							Subsets of the following character ranges are allowed: {allowedRanges.join(", ")}.
 						</p>
@@ -125,7 +215,21 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 									<td>
 										<p>{preset.description}</p>
 										<p>E.g. {preset.examples.join(", ")}</p>
-										<p>Regex: {preset.regex}</p>
+										<p>
+											Regex: {preset.regex}&nbsp;
+											{this.presetChecks[index].length === 0 ? (
+												<span
+													className="glyphicon glyphicon-ok"
+													title={"The preset agrees with its regex on all inputs up to length 6."}
+												/>
+											) : (
+												<span
+													className="glyphicon glyphicon-warning-sign"
+													title={"The preset disagrees with its regex on: "
+														+ this.presetChecks[index].map(({input}) => input === "" ? "ε" : input).join(", ")}
+												/>
+											)}
+										</p>
 									</td>
 									<td>
 										<button
@@ -145,13 +249,25 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 						<button
 							type="button"
 							className="btn btn-default"
-							disabled={true}
-							title={nfa.isDFA ? "Your NFA is already a DFA." : "Functionality coming soon."}
+							disabled={nfa.isDFA}
+							title={nfa.isDFA ? "Your NFA is already a DFA." : "Convert to an equivalent DFA using the subset construction."}
+							onClick={() => this.determinize()}
 						>
 							Convert to DFA
 						</button>
 						<br/>
 						<br/>
+						<button
+							type="button"
+							className="btn btn-default"
+							disabled={!nfa.hasEmptyTransitions}
+							title={!nfa.hasEmptyTransitions ? "There are no ε-transitions to remove." : "Replace ε-transitions with equivalent ordinary transitions. Trim afterwards to remove any states which become unreachable."}
+							onClick={() => this.removeEpsilon()}
+						>
+							Remove ε-transitions
+						</button>
+						<br/>
+						<br/>
 						<button
 							type="button"
 							className="btn btn-default"
@@ -171,9 +287,154 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 						>
 							Complete
 						</button>
+						<br/>
+						<br/>
+						<button
+							type="button"
+							className="btn btn-default"
+							title={"Convert to the minimal complete DFA, merging equivalent states."}
+							onClick={() => this.minimize()}
+						>
+							Minimize
+						</button>
+						<br/>
+						<br/>
+						<button
+							type="button"
+							className="btn btn-default"
+							title={"Accept exactly the strings over the alphabet which are currently rejected."}
+							onClick={() => this.complement()}
+						>
+							Complement
+						</button>
+						<br/>
+						<br/>
+						<div className="btn-group">
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept zero or more repetitions of the accepted strings (Kleene star)."}
+								onClick={() => this.onNFA('star')}
+							>
+								Star
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept one or more repetitions of the accepted strings (Kleene plus)."}
+								onClick={() => this.onNFA('plus')}
+							>
+								Plus
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Also accept the empty string."}
+								onClick={() => this.onNFA('optional')}
+							>
+								Optional
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept the reverse of each accepted string."}
+								onClick={() => this.onNFA('reverse')}
+							>
+								Reverse
+							</button>
+						</div>
+						<hr/>
+						<label>Combine with another automaton</label>
+						<OperandSelect
+							saved={this.state.saved}
+							value={this.state.operand}
+							onChange={(operand) => this.setOperand(operand)}
+						/>
+						<br/>
+						<div className="btn-group">
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept strings accepted by either automaton."}
+								onClick={() => this.combine('union')}
+							>
+								Union
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept strings accepted by both automata."}
+								onClick={() => this.combine('intersect')}
+							>
+								Intersection
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept strings accepted by this automaton but not the other."}
+								onClick={() => this.combine('difference')}
+							>
+								Difference
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept strings accepted by exactly one of the automata."}
+								onClick={() => this.combine('xor')}
+							>
+								Symmetric difference
+							</button>
+							<button
+								type="button"
+								className="btn btn-default"
+								title={"Accept strings accepted by this automaton followed by strings accepted by the other."}
+								onClick={() => this.combine('concat')}
+							>
+								Concatenation
+							</button>
+						</div>
+						<br/>
+						<br/>
+						<button
+							type="button"
+							className="btn btn-default"
+							title={"Save the current automaton so it can be used as an operand later."}
+							onClick={() => this.save()}
+						>
+							Save current automaton
+						</button>
+					</div>
+					<div style={this.displayIf(this.state.tab === 'compare')}>
+						<label>Compare with another automaton</label>
+						<OperandSelect
+							saved={this.state.saved}
+							value={this.state.operand}
+							onChange={(operand) => this.setOperand(operand)}
+						/>
+						<br/>
+						<LanguageChecker
+							nfa={nfa}
+							getOperand={this.getOperand}
+							runOnInput={(input) => this.reset(input)}
+						/>
+						<hr/>
+						<RegexOracle
+							nfa={nfa}
+							runOnInput={(input) => this.reset(input)}
+						/>
 					</div>
+					{this.state.tab === 'properties' ? <LanguageProperties nfa={nfa}/> : null}
 					<div style={this.displayIf(this.state.tab === 'port')}>
 						<form className="form-inline">
+							<select
+								className="form-control"
+								value={this.state.portFormat}
+								onChange={(e) => this.setPortFormat(e.target.value as PortFormat)}
+							>
+								{_portFormats.entrySeq().map(([format, {name}]) => (
+									<option key={format} value={format}>{name}</option>
+								))}
+							</select>
 							<button
 								type="button"
 								className="btn btn-default"
@@ -183,23 +444,58 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 							>
 								Export
 							</button>
+							<button type="button" className="btn btn-default" onClick={() => this.download()}>
+								Download
+							</button>
 							<br/>
 							<br/>
 							<textarea
 								className="form-control"
 								onChange={(e) => this.setImporting(e.target.value)}
+								readOnly={!portFormat.importable}
 								rows={10}
 								value={this.state.importing ? this.state.importing : this.exportValue()}
 							/>
 							<br/>
 							<br/>
+							{portFormat.importable ? (
+								<React.Fragment>
+									<button
+										type="button"
+										className="btn btn-default"
+										disabled={!this.state.importing}
+										onClick={() => this.import()}
+									>
+										Import
+									</button>
+									<input
+										type="file"
+										accept={portFormat.extension}
+										onChange={(e) => e.target.files && e.target.files[0] && this.loadFile(e.target.files[0])}
+									/>
+								</React.Fragment>
+							) : null}
+						</form>
+						<hr/>
+						<DiagramExport exportDiagram={this.exportDiagram}/>
+						<hr/>
+						<form className="form-inline" onSubmit={(e) => {e.preventDefault(); this.fromRegex()}}>
+							<label>From regex</label>
+							<br/>
+							<input
+								type="text"
+								className="form-control"
+								placeholder="E.g. (a|b)*ab"
+								value={this.state.regex}
+								onChange={(e) => this.setRegex(e.target.value)}
+							/>
 							<button
-								type="button"
+								type="submit"
 								className="btn btn-default"
-								disabled={!this.state.importing}
-								onClick={() => this.import()}
+								disabled={!this.state.regex}
+								title={"Replace the current automaton with an NFA built from the regex."}
 							>
-								Import
+								Build
 							</button>
 						</form>
 					</div>
@@ -208,14 +504,17 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 					<div>
 						<ControlPanel
 							nfa={nfa}
+							breakpoints={this.state.breakpoints}
 							addState={this.addState}
 							back={this.undo}
 							clear={this.clear}
 							editAlphabet={this.editAlphabet}
+							goToStep={this.goToStep}
 							reset={this.reset}
 							run={this.run}
 							setInput={this.setInput}
 							step={this.step}
+							stepBack={this.stepBack}
 							stop={this.stop}
 						/>
 					</div>
@@ -232,14 +531,19 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 					</div>*/}
 					<div className="editor" style={this.displayIf(editor === 'visual')}>
 						<VisualEditor
+							ref={this.visualEditor}
 							nfa={nfa}
+							breakpoints={this.state.breakpoints}
 							confirmRemoveState={this.confirmRemoveState}
 							confirmRemoveTransition={this.confirmRemoveTransition}
+							coverage={this.state.showCoverage ? coverage : null}
 							promptAddTransition={this.promptAddTransition}
 							promptEditState={this.promptEditState}
 							promptUpdateTransitionSymbols={this.promptUpdateTransitionSymbols}
+							setPositions={this.setPositions}
 							setStart={this.setStart}
 							toggleAccept={this.toggleAccept}
+							toggleBreakpoint={this.toggleBreakpoint}
 						/>
 					</div>
 					<div>
@@ -247,6 +551,9 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 						<span className="state nongenerating">Non-generating</span>,&nbsp;
 						<span className="state accept">Accept</span>
 					</div>
+					<ComputationTree nfa={nfa}/>
+					<br/>
+					<RegexView nfa={nfa}/>
 				</div>
 			</div>
 		));
@@ -256,18 +563,44 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		this.onNFA('addState', name);
 	}
 
+	/**
+	 * Add inputs to the test inputs, skipping any which are already there.
+	 * @param expected Whether the inputs are expected to be accepted.
+	 */
+	addTestInputs = (inputs: string[], expected?: boolean) => {
+		this.setState((prevState) => ({
+			testInputs: prevState.testInputs.concat(inputs
+				.filter((input) => !prevState.testInputs.some((testInput) => testInput.input === input))
+				.map((input) => ({expected, input}))),
+		}));
+	}
+
 	/**
 	 * Clear the editor, replacing the NFA with a blank one.
 	 */
 	clear = () => {
 		this.setState({
-			nfa: new RunnableNFA().init({
+			nfa: layOut(new RunnableNFA().init({
 				n: 1,
 				names: ["Start"],
-			})
+			})),
 		});
 	}
 
+	/**
+	 * Combine the NFA with the selected operand using a binary operation.
+	 */
+	combine = (operation: BinaryOperation) => {
+		const operand = this.getOperand();
+		if (operand) {
+			this.onNFA(operation, operand);
+		}
+	}
+
+	complement = () => {
+		this.onNFA('complement');
+	}
+
 	complete = () => {
 		this.onNFA('complete');
 	}
@@ -286,6 +619,10 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		this.onNFA('removeTransition', origin, target);
 	}
 
+	determinize = () => {
+		this.onNFA('determinize');
+	}
+
 	/**
 	 * Simple wrapper to set the style of a react element as display: block or display: none.
 	 */
@@ -295,6 +632,13 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		};
 	}
 
+	/**
+	 * Download the exported NFA as a file in the selected format.
+	 */
+	download = () => {
+		download(this.exportValue(), "nfa" + _portFormats.get(this.state.portFormat)!.extension);
+	}
+
 	editAlphabet = () => {
 		const input = window.prompt(
 			"Enter a new alphabet (leave blank for implicit).",
@@ -309,32 +653,145 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		return this.onNFA('setAlphabet', new SymbolGroup(input, EDIT_SYMBOLS_DELIMITER));
 	}
 
+	/**
+	 * Download the visual editor's diagram as an image.
+	 * @param highlighting Whether to keep the highlighting of the simulation, breakpoints and test coverage.
+	 * @param scale For PNG images, the number of pixels for each unit of the diagram.
+	 */
+	exportDiagram = (format: 'svg' | 'png', highlighting: boolean, scale: number) => {
+		const visualEditor = this.visualEditor.current;
+		if (!visualEditor) {
+			return;
+		}
+		if (format === 'svg') {
+			download(new Blob([visualEditor.toSVG(highlighting)], {type: "image/svg+xml"}), "nfa.svg");
+			return;
+		}
+		visualEditor.toPNG(highlighting, scale).then(
+			(blob) => download(blob, "nfa.png"),
+			(e) => window.alert(e.message),
+		);
+	}
+
 	exportValue = (): string => {
+		if (this.state.portFormat === 'dot') {
+			return this.state.nfa.toDot();
+		}
+		if (this.state.portFormat === 'jff') {
+			return this.state.nfa.toJFF();
+		}
+		if (this.state.portFormat === 'tikz') {
+			return this.state.nfa.toTikZ();
+		}
+		if (this.state.portFormat === 'markdown' || this.state.portFormat === 'csv' || this.state.portFormat === 'html') {
+			return this.state.nfa.toTable(this.state.portFormat);
+		}
 		return JSON.stringify({
 			nfa: this.state.nfa.toDefinition(),
+			tests: this.state.testInputs.toArray(),
 		});
 	}
 
+	/**
+	 * Replace the NFA with one built from the entered regex using Thompson's construction.
+	 * Unlike importing, this can be undone.
+	 */
+	fromRegex = () => {
+		let nfa: RunnableNFA;
+		try {
+			nfa = layOut(new RunnableNFA().init(regexToDefinition(this.state.regex)));
+		} catch (e) {
+			window.alert(e.message);
+			return;
+		}
+		this.history.push(this.state.nfa);
+		this.setState({nfa});
+	}
+
+	/**
+	 * Get the NFA currently selected as the operand for binary operations (null if it is invalid).
+	 */
+	getOperand = (): RunnableNFA | null => {
+		const [source, index] = this.state.operand.split(":");
+		try {
+			switch (source) {
+				case 'preset':
+					return new RunnableNFA().init(presets[Number(index)].definition);
+				case 'regex':
+					return new RunnableNFA().init(regexToDefinition(presets[Number(index)].regex));
+				case 'saved':
+					return (this.state.saved.get(Number(index)) as ISavedNFA).nfa;
+				default:
+					return this.parseImport(this.state.importing || this.exportValue()).nfa;
+			}
+		} catch (e) {
+			window.alert(importErrorMessage(e));
+			return null;
+		}
+	}
+
+	/**
+	 * Get the coverage of the test inputs. It is only found again if the inputs or the structure of the NFA
+	 * have changed, so running the simulation or editing anything else doesn't repeat every test.
+	 */
+	getCoverage(): ICoverage {
+		const nfa = this.state.nfa;
+		const inputs = this.state.testInputs;
+		if (
+			!this.coverage
+			|| this.coverage.inputs !== inputs
+			|| this.coverage.start !== nfa.start
+			|| this.coverage.transitions !== nfa.transitions
+		) {
+			this.coverage = {
+				coverage: nfa.coverage(inputs.map((testInput) => testInput.input)),
+				inputs,
+				start: nfa.start,
+				transitions: nfa.transitions,
+			};
+		}
+		return this.coverage.coverage;
+	}
+
+	goToStep = (step: number) => {
+		this.onSimulation('goToStep', step);
+	}
+
 	import = () => {
 		this.setState((prevState) => {
 			try {
+				const imported = this.parseImport(prevState.importing);
 				return {
 					importing: "",
-					nfa: new RunnableNFA().init(JSON.parse(prevState.importing).nfa),
+					nfa: layOut(imported.nfa),
+					testInputs: imported.tests || prevState.testInputs,
 				};
 			} catch (e) {
-				window.alert("Invalid input.");
+				window.alert(importErrorMessage(e));
 				return null;
 			}
 		});
 	}
 
+	/**
+	 * Load a file to be imported.
+	 */
+	loadFile = (file: File) => {
+		const reader = new FileReader();
+		reader.onload = () => this.setImporting(reader.result as string);
+		reader.readAsText(file);
+	}
+
 	loadPreset = (index: number) => {
 		this.setState({
-			nfa: new RunnableNFA().init(presets[index].definition),
+			nfa: layOut(new RunnableNFA().init(presets[index].definition)),
 		});
 	}
 
+	minimize = () => {
+		this.onNFA('minimize');
+	}
+
 	/**
 	 * Update the NFAEditor's state with a new NFA, based on the result of calling one of the NFA's methods.
 	 * @param methodName The name of the NFA method to call.
@@ -346,7 +803,7 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 				throw new Error(methodName + " is not a valid NFA method!");
 			}
 			try {
-				const newNFA = prevState.nfa[methodName](...args);
+				const newNFA = layOut(prevState.nfa[methodName](...args), prevState.nfa);
 				if (newNFA !== prevState.nfa) {
 					this.history.push(prevState.nfa);
 				}
@@ -360,6 +817,40 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		});
 	}
 
+	/**
+	 * Call a method of the NFA which only affects its simulation (not the automaton itself),
+	 * so it is not added to the edit history.
+	 */
+	onSimulation(methodName: string, ...args: any[]): void {
+		this.setState((prevState, props) => ({
+			nfa: prevState.nfa[methodName](...args),
+		}));
+	}
+
+	/**
+	 * Read an NFA (and its test inputs, if the format includes them) in the selected import/export format.
+	 * @throws An Error if the input is invalid.
+	 */
+	parseImport(value: string): {nfa: RunnableNFA, tests?: List<ITestInput>} {
+		if (this.state.portFormat === 'dot') {
+			return {nfa: new RunnableNFA().fromDot(value)};
+		}
+		if (this.state.portFormat === 'jff') {
+			return {nfa: new RunnableNFA().fromJFF(value)};
+		}
+		if (this.state.portFormat === 'markdown' || this.state.portFormat === 'csv') {
+			return {nfa: new RunnableNFA().fromTable(value, this.state.portFormat)};
+		}
+		if (!_portFormats.get(this.state.portFormat)!.importable) {
+			throw new Error(_portFormats.get(this.state.portFormat)!.name + " cannot be imported.");
+		}
+		const imported = JSON.parse(value);
+		return {
+			nfa: new RunnableNFA().init(imported.nfa),
+			tests: imported.tests !== undefined ? List(testsFromJSON(imported.tests)) : undefined,
+		};
+	}
+
 	promptAddTransition = (origin: State, target: State) => {
 		this.promptUpdateTransitionSymbols(origin, target);
 	}
@@ -374,7 +865,7 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 	promptUpdateTransitionSymbols = (origin: State, target: State) => {
 		const symbols = window.prompt(
 			"Enter a new symbol or symbols.",
-			this.state.nfa.symbols(origin, target).toString(EDIT_SYMBOLS_DELIMITER)
+			this.state.nfa.symbols(origin, target).toString(EDIT_SYMBOLS_DELIMITER, true)
 		);
 		if (symbols === null) {
 			return;
@@ -382,12 +873,29 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		this.onNFA('setTransition', origin, target, new SymbolGroup(symbols, EDIT_SYMBOLS_DELIMITER));
 	}
 
+	removeEpsilon = () => {
+		this.onNFA('removeEpsilon');
+	}
+
 	reset = (input?: string) => {
-		this.onNFA('reset', input);
+		this.onSimulation('reset', input);
 	}
 
 	run = () => {
-		this.onNFA('run');
+		this.onSimulation('run');
+	}
+
+	/**
+	 * Save the current NFA under a name, so that it can be used as an operand.
+	 */
+	save = () => {
+		const name = window.prompt("Enter a name for the saved automaton.", "Automaton " + (this.state.saved.size + 1));
+		if (!name) {
+			return;
+		}
+		this.setState((prevState) => ({
+			saved: prevState.saved.push({name, nfa: prevState.nfa.stop()}),
+		}));
 	}
 
 	setImporting(contents: string) {
@@ -397,23 +905,52 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 	}
 
 	setInput = (input: string) => {
-		this.onNFA('setInput', input);
+		this.onSimulation('setInput', input);
 	}
 
 	setName = (state: State, name: string) => {
 		this.onNFA('setName', state, name);
 	}
 
+	setOperand = (operand: string) => {
+		this.setState({operand});
+	}
+
+	setPortFormat = (portFormat: PortFormat) => {
+		this.setState({portFormat});
+	}
+
+	/**
+	 * Update where states are drawn. Moving states is not added to the edit history.
+	 */
+	setPositions = (positions: Map<State, Position>) => {
+		this.setState((prevState) => ({
+			nfa: prevState.nfa.setPositions(positions),
+		}));
+	}
+
+	setRegex = (regex: string) => {
+		this.setState({regex});
+	}
+
 	setStart = (state: State) => {
 		this.onNFA('setStart', state);
 	}
 
+	setTestInputs = (testInputs: List<ITestInput>) => {
+		this.setState({testInputs});
+	}
+
 	step = () => {
-		this.onNFA('step');
+		this.onSimulation('step');
+	}
+
+	stepBack = () => {
+		this.onSimulation('stepBack');
 	}
 
 	stop = () => {
-		this.onNFA('stop');
+		this.onSimulation('stop');
 	}
 
 	switchEditor = (editor: EditorType) => {
@@ -428,14 +965,34 @@ export default class NFAEditor extends React.PureComponent<{}, IState> {
 		this.onNFA('toggleAccept', state);
 	}
 
+	toggleBreakpoint = (state: State) => {
+		this.setState((prevState) => ({
+			breakpoints: prevState.breakpoints.has(state)
+				? prevState.breakpoints.delete(state)
+				: prevState.breakpoints.add(state),
+		}));
+	}
+
+	toggleCoverage = () => {
+		this.setState((prevState) => ({showCoverage: !prevState.showCoverage}));
+	}
+
 	trim = () => {
 		this.onNFA('trim');
 	}
 
+	/**
+	 * Undo the last change to the NFA, keeping the simulation at the same point.
+	 */
 	undo = () => {
 		if (this.history.length > 0) {
+			const nfa = this.state.nfa;
+			// Keep the states where they are now
+			const previous = (this.history.pop() as RunnableNFA).setPositions(nfa.positions);
 			this.setState({
-				nfa: this.history.pop() as RunnableNFA,
+				nfa: nfa.isRunning
+					? previous.reset(nfa.consumedInput + nfa.remainingInput).goToStep(nfa.numRead)
+					: previous.stop().setInput(nfa.remainingInput),
 			});
 		}
 	}
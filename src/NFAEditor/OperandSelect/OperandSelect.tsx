@@ -0,0 +1,55 @@
+import {List} from 'immutable';
+import * as React from 'react';
+
+import RunnableNFA from '../../Core/RunnableNFA';
+
+import presets from '../presets';
+
+export interface ISavedNFA {
+	name: string,
+	nfa: RunnableNFA,
+};
+
+interface IProps {
+	saved: List<ISavedNFA>,
+	value: string,
+	onChange: (value: string) => any,
+};
+
+/**
+ * Dropdown for picking another automaton to use as an operand, from the presets (or their regexes),
+ * the contents of the Import/Export box, or the saved automata.
+ * Values are of the form "preset:<index>", "regex:<index>", "import" or "saved:<index>".
+ */
+export default class OperandSelect extends React.PureComponent<IProps> {
+	render() {
+		return (
+			<select
+				className="form-control"
+				value={this.props.value}
+				onChange={(e) => this.props.onChange(e.target.value)}
+			>
+				<optgroup label="Presets">
+					{presets.map((preset, index) => (
+						<option key={index} value={"preset:" + index}>{preset.description}</option>
+					))}
+				</optgroup>
+				<optgroup label="Preset regexes">
+					{presets.map((preset, index) => (
+						<option key={index} value={"regex:" + index}>{preset.regex}</option>
+					))}
+				</optgroup>
+				<optgroup label="Import/Export">
+					<option value="import">Contents of the Import/Export box</option>
+				</optgroup>
+				{this.props.saved.size !== 0 ? (
+					<optgroup label="Saved">
+						{this.props.saved.map((saved, index) => (
+							<option key={index} value={"saved:" + index}>{saved.name}</option>
+						))}
+					</optgroup>
+				) : null}
+			</select>
+		);
+	}
+}
@@ -0,0 +1,106 @@
+import * as React from 'react';
+
+import RunnableNFA, {IDisagreement} from '../../Core/RunnableNFA';
+
+interface IProps {
+	nfa: RunnableNFA,
+	runOnInput: (input: string) => any,
+};
+interface IState {
+	disagreements: IDisagreement[] | null,
+	maxLength: number,
+	regex: string,
+};
+
+/**
+ * Tests the NFA against a JavaScript regex which it is supposed to implement, listing the inputs on which
+ * they disagree.
+ */
+export default class RegexOracle extends React.PureComponent<IProps, IState> {
+	constructor(props: IProps) {
+		super(props);
+
+		this.state = {
+			disagreements: null,
+			maxLength: 6,
+			regex: "",
+		};
+	}
+
+	check() {
+		try {
+			this.setState({
+				disagreements: this.props.nfa.checkAgainstRegExp(this.state.regex, {maxLength: this.state.maxLength}),
+			});
+		} catch (e) {
+			window.alert(e.message);
+		}
+	}
+
+	render() {
+		const disagreements = this.state.disagreements;
+		return (
+			<div className="RegexOracle">
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						this.check();
+					}}
+				>
+					<label>Test against a JavaScript regex</label>
+					<input
+						type="text"
+						className="form-control"
+						placeholder="e.g. (a|b)*abb"
+						value={this.state.regex}
+						onChange={(e) => this.setState({regex: e.target.value, disagreements: null})}
+					/>
+					<div className="form-inline">
+						<label>Inputs up to length</label>&nbsp;
+						<input
+							type="number"
+							className="form-control"
+							min={0}
+							value={this.state.maxLength}
+							onChange={(e) => {
+								const maxLength = parseInt(e.target.value, 10);
+								if (maxLength >= 0) {
+									this.setState({maxLength, disagreements: null});
+								}
+							}}
+						/>&nbsp;
+						<button
+							type="submit"
+							className="btn btn-default"
+							title={"Compare the automaton with the regex (anchored as ^(...)$) on all inputs up to this length, or on random inputs if there are too many."}
+						>
+							Test
+						</button>
+					</div>
+				</form>
+				{disagreements === null ? null : disagreements.length === 0 ? (
+					<p>The automaton agrees with the regex on every input tried.</p>
+				) : (
+					<div>
+						<p>The automaton disagrees with the regex on {disagreements.length} input(s):</p>
+						<ul className="list-unstyled">
+							{disagreements.map(({accepted, input}) => (
+								<li key={input}>
+									<button
+										type="button"
+										className="btn btn-link btn-xs"
+										title={"Visualize"}
+										onClick={() => this.props.runOnInput(input)}
+									>
+										{input === "" ? "ε" : input}
+									</button>
+									{accepted ? "accepted by the automaton but not the regex" : "accepted by the regex but not the automaton"}
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</div>
+		);
+	}
+}
@@ -0,0 +1,92 @@
+import * as React from 'react';
+
+import {EliminationOrder, IEliminationStep} from '../../Core/NFA';
+import RunnableNFA from '../../Core/RunnableNFA';
+
+interface IProps {
+	nfa: RunnableNFA,
+};
+interface IState {
+	order: EliminationOrder,
+	showSteps: boolean,
+};
+
+/**
+ * Shows a regex equivalent to the NFA, and optionally the steps of the state elimination used to find it.
+ */
+export default class RegexView extends React.PureComponent<IProps, IState> {
+	// The last result of the state elimination, with what it was found for (see stateElimination())
+	private elimination: {
+		nfa: RunnableNFA,
+		order: EliminationOrder,
+		result: [string, IEliminationStep[]],
+	} | null;
+
+	constructor(props: IProps) {
+		super(props);
+
+		this.elimination = null;
+
+		this.state = {
+			order: 'degree',
+			showSteps: false,
+		};
+	}
+
+	render() {
+		const [regex, steps] = this.stateElimination();
+
+		return (
+			<div className="RegexView">
+				<div className="form-inline">
+					<label>Regex:</label>&nbsp;
+					<code>{regex}</code>&nbsp;&nbsp;
+					<select
+						className="form-control input-sm"
+						value={this.state.order}
+						title={"The order in which to eliminate states."}
+						onChange={(e) => this.setState({order: e.target.value as EliminationOrder})}
+					>
+						<option value="degree">Fewest paths first</option>
+						<option value="size">Shortest regexes first</option>
+						<option value="states">State order</option>
+					</select>&nbsp;&nbsp;
+					<label>
+						<input
+							type="checkbox"
+							checked={this.state.showSteps}
+							onChange={(e) => this.setState({showSteps: e.target.checked})}
+						/> Show steps
+					</label>
+				</div>
+				{this.state.showSteps ? (
+					<ol>
+						{steps.map((step) => (
+							<li key={step.state}>
+								Eliminate {step.name}:
+								<ul>
+									{step.edges.map(([origin, target, edge], index) => (
+										<li key={index}>{origin} → {target}: <code>{edge}</code></li>
+									))}
+								</ul>
+							</li>
+						))}
+					</ol>
+				) : null}
+			</div>
+		);
+	}
+
+	/**
+	 * Get the regex and the steps of the state elimination. They are only found again if the structure of the NFA
+	 * has changed, since the regexes can be very large and the NFA changes on every step of the simulation.
+	 */
+	stateElimination(): [string, IEliminationStep[]] {
+		const nfa = this.props.nfa;
+		const order = this.state.order;
+		if (!this.elimination || this.elimination.order !== order || !nfa.hasSameStructure(this.elimination.nfa)) {
+			this.elimination = {nfa, order, result: nfa.stateElimination(order)};
+		}
+		return this.elimination.result;
+	}
+}
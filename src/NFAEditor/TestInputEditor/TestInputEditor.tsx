@@ -1,76 +1,433 @@
-import {List} from 'immutable';
+import {List, Map, Set} from 'immutable';
 import * as React from 'react';
 
-import RunnableNFA from '../../Core/RunnableNFA';
+import RunnableNFA, {ICoverage, IExplanation, ITestGenerationOptions} from '../../Core/RunnableNFA';
+import {download} from '../../Util/general';
+
+import {TestFormat, formatTests, parseTests, testFormats} from './formats';
 
 import './TestInputEditor.css';
 
+// Limits on generating all inputs up to a length, since there are exponentially many
+const MAX_GENERATED_INPUTS = 1000;
+const MAX_GENERATION_LENGTH = 100;
+
+export interface ITestInput {
+	expected?: boolean, // Whether the input should be accepted (undefined if there is no expected outcome)
+	input: string,
+	label?: string,
+};
+
 interface IProps {
 	nfa: RunnableNFA,
+	coverage: ICoverage | null, // Only found while it is shown
+	inputs: List<ITestInput>,
 	runOnInput: (input: string) => any,
+	setInputs: (inputs: List<ITestInput>) => any,
+	showCoverage: boolean,
+	toggleCoverage: () => any,
 };
 interface IState {
-	inputs: List<string>,
+	bulk: 'import' | 'export' | 'generate' | null, // Which bulk import/export/generation panel is open
+	bulkFormat: TestFormat,
+	bulkText: string, // The text to import
+	expanded: Set<string>, // The inputs whose explanations are shown (by input, so they survive inputs being removed or added)
+	generation: ITestGenerationOptions,
+	generationLength: number, // The maximum length of all strings to generate, if enabled
+	hovered: string | null, // The input whose result is being hovered over, whose explanation is shown as a tooltip
 };
 
 export default class TestInputEditor extends React.PureComponent<IProps, IState> {
+	// The results and explanations found for the test inputs, with the NFA they were found for (see getResults())
+	private results: {
+		accepted: Map<string, boolean>,
+		explanations: Map<string, IExplanation>,
+		nfa: RunnableNFA,
+	} | null;
+
 	constructor(props: IProps) {
 		super(props);
 
+		this.results = null;
+
 		this.state = {
-			inputs: List([""]),
+			bulk: null,
+			bulkFormat: 'lines',
+			bulkText: "",
+			expanded: Set(),
+			generation: {
+				boundaries: true,
+				transitions: true,
+			},
+			generationLength: 3,
+			hovered: null,
 		};
 	}
 
+	/**
+	 * Get whether the NFA accepts an input.
+	 */
+	accepts(input: string): boolean {
+		const results = this.getResults();
+		if (!results.accepted.has(input)) {
+			results.accepted.set(input, this.props.nfa.accepts(input));
+		}
+		return results.accepted.get(input)!;
+	}
+
 	add() {
-		this.setState({
-			inputs: this.state.inputs.push(""),
-		});
+		this.props.setInputs(this.props.inputs.push({input: ""}));
 	}
 
 	clear() {
+		this.props.setInputs(List());
+	}
+
+	/**
+	 * Describe why the NFA accepts or rejects an input (see RunnableNFA.explain()).
+	 */
+	describe(input: string, explanation: IExplanation): string {
+		const nfa = this.props.nfa;
+		const names = (states: Iterable<number>) => [...states].map((state) => nfa.name(state)).join(", ");
+		if (explanation.accepted) {
+			return "Accepted via " + explanation.path.map((step) => (
+				(step.symbol === null ? "" : "-" + (step.symbol || "ε") + "→ ") + nfa.name(step.state)
+			)).join(" ") + ".";
+		}
+		if (explanation.states.size === 0) {
+			return "Rejected: there is no start state.";
+		}
+		if (explanation.position < input.length) {
+			return "Rejected: after reading " + (explanation.position === 0 ? "nothing" : "\"" + input.substr(0, explanation.position) + "\"")
+				+ ", there is no transition on \"" + input[explanation.position] + "\" from " + names(explanation.states) + ".";
+		}
+		return "Rejected: the input ended in " + names(explanation.states) + ", and none of these are accept states.";
+	}
+
+	/**
+	 * Download the test inputs as a text file in the selected format.
+	 */
+	download() {
+		const extension = this.state.bulkFormat === 'csv' ? ".csv" : ".txt";
+		download(formatTests(this.props.inputs, this.state.bulkFormat), "tests" + extension);
+	}
+
+	/**
+	 * Explain why the NFA accepts or rejects an input (see RunnableNFA.explain()).
+	 */
+	explain(input: string): IExplanation {
+		const results = this.getResults();
+		if (!results.explanations.has(input)) {
+			results.explanations.set(input, this.props.nfa.explain(input));
+		}
+		return results.explanations.get(input)!;
+	}
+
+	/**
+	 * Add test inputs generated from the NFA (see RunnableNFA.generateTests()), skipping any which are already there.
+	 * Their expected outcomes are the NFA's current results, so that they can be used as regression tests.
+	 */
+	generate() {
+		const nfa = this.props.nfa;
+		const tests = nfa.generateTests(this.state.generation)
+			.filter((test) => !this.props.inputs.some((testInput) => testInput.input === test.input))
+			.map((test) => ({
+				expected: nfa.accepts(test.input),
+				input: test.input,
+				label: test.reason,
+			}));
+		this.props.setInputs(this.props.inputs.concat(tests));
+	}
+
+	/**
+	 * Get the results and explanations found so far for the NFA. They are only found again if the structure of the NFA
+	 * has changed, since the NFA changes on every step of the simulation, and the test inputs on every keystroke.
+	 */
+	getResults() {
+		const nfa = this.props.nfa;
+		if (!this.results || !nfa.hasSameStructure(this.results.nfa)) {
+			this.results = {
+				accepted: Map<string, boolean>().asMutable(),
+				explanations: Map<string, IExplanation>().asMutable(),
+				nfa,
+			};
+		}
+		return this.results;
+	}
+
+	/**
+	 * Add the test inputs in the import box, in the selected format.
+	 * @param replace Whether to replace the existing test inputs rather than adding to them.
+	 */
+	import(replace: boolean) {
+		try {
+			const tests = parseTests(this.state.bulkText, this.state.bulkFormat);
+			this.props.setInputs(replace ? List(tests) : this.props.inputs.concat(tests));
+			this.setState({
+				bulk: null,
+				bulkText: "",
+			});
+		} catch (e) {
+			window.alert(e.message);
+		}
+	}
+
+	/**
+	 * Load a file into the import box.
+	 */
+	loadFile(file: File) {
+		const reader = new FileReader();
+		reader.onload = () => this.setState({bulkText: reader.result as string});
+		reader.readAsText(file);
+	}
+
+	set(index: number, changes: Partial<ITestInput>) {
+		this.props.setInputs(this.props.inputs.update(index, (testInput) => ({...testInput, ...changes})));
+	}
+
+	toggleExpanded(input: string) {
 		this.setState({
-			inputs: List(),
+			expanded: this.state.expanded.has(input) ? this.state.expanded.delete(input) : this.state.expanded.add(input),
 		});
 	}
 
-	set(index: number, input: string) {
-		this.setState({
-			inputs: this.state.inputs.set(index, input),
+	renderBulk() {
+		return (
+			<div className="bulk">
+				<select
+					className="form-control"
+					value={this.state.bulkFormat}
+					onChange={(e) => this.setState({bulkFormat: e.target.value as TestFormat})}
+				>
+					{testFormats.map(([format, name]) => <option key={format} value={format}>{name}</option>)}
+				</select>
+				{this.state.bulk === 'import' ? (
+					<div>
+						<textarea
+							className="form-control"
+							rows={8}
+							placeholder={"Paste test inputs here, using ε for the empty string."}
+							value={this.state.bulkText}
+							onChange={(e) => this.setState({bulkText: e.target.value})}
+						/>
+						<input
+							type="file"
+							accept=".txt,.csv,text/plain,text/csv"
+							onChange={(e) => e.target.files && e.target.files[0] && this.loadFile(e.target.files[0])}
+						/>
+						<button
+							className="btn btn-default"
+							disabled={!this.state.bulkText}
+							onClick={() => this.import(false)}
+						>
+							Add
+						</button>
+						<button
+							className="btn btn-default"
+							disabled={!this.state.bulkText}
+							onClick={() => this.import(true)}
+						>
+							Replace
+						</button>
+					</div>
+				) : (
+					<div>
+						<textarea
+							className="form-control"
+							rows={8}
+							readOnly={true}
+							value={formatTests(this.props.inputs, this.state.bulkFormat)}
+						/>
+						<button className="btn btn-default" onClick={() => this.download()}>Download</button>
+					</div>
+				)}
+			</div>
+		);
+	}
+
+	renderCoverage() {
+		const nfa = this.props.nfa;
+		const coverage = this.props.coverage;
+		if (!coverage) {
+			return null;
+		}
+		const numTransitions = nfa.states.reduce((total, origin) => total + nfa.transitionsFrom(origin).size, 0);
+		const percentage = (covered: number, total: number) => (
+			covered + "/" + total + " (" + (total ? Math.round(covered / total * 100) : 100) + "%)"
+		);
+		return (
+			<div className="coverage">
+				<label>
+					<input
+						type="checkbox"
+						checked={this.props.showCoverage}
+						onChange={() => this.props.toggleCoverage()}
+					/> Show coverage
+				</label>
+				&nbsp;States: {percentage(coverage.states.size, nfa.numStates)},
+				transitions: {percentage(coverage.transitions.size, numTransitions)}
+			</div>
+		);
+	}
+
+	renderGenerate() {
+		const generation = this.state.generation;
+		const setOption = (changes: Partial<ITestGenerationOptions>) => this.setState({
+			generation: {...generation, ...changes},
 		});
+		return (
+			<div className="bulk">
+				<div className="checkbox">
+					<label>
+						<input
+							type="checkbox"
+							checked={!!generation.transitions}
+							onChange={(e) => setOption({transitions: e.target.checked})}
+						/> For each transition, the shortest inputs which follow it and are accepted or rejected
+					</label>
+				</div>
+				<div className="checkbox">
+					<label>
+						<input
+							type="checkbox"
+							checked={!!generation.boundaries}
+							onChange={(e) => setOption({boundaries: e.target.checked})}
+						/> For each accept state, the shortest inputs which just reach it and just leave it
+					</label>
+				</div>
+				<div
+					className="checkbox form-inline"
+					title={"If there are more than " + MAX_GENERATED_INPUTS + " such inputs, that many random ones are added instead."}
+				>
+					<label>
+						<input
+							type="checkbox"
+							checked={generation.maxLength !== undefined}
+							onChange={(e) => setOption({
+								maxInputs: MAX_GENERATED_INPUTS,
+								maxLength: e.target.checked ? this.state.generationLength : undefined,
+							})}
+						/> All inputs up to length
+					</label>&nbsp;
+					<input
+						type="number"
+						className="form-control input-sm"
+						min={0}
+						max={MAX_GENERATION_LENGTH}
+						value={this.state.generationLength}
+						onChange={(e) => {
+							const length = parseInt(e.target.value, 10);
+							if (length >= 0 && length <= MAX_GENERATION_LENGTH) {
+								this.setState({generationLength: length});
+								if (generation.maxLength !== undefined) {
+									setOption({maxLength: length});
+								}
+							}
+						}}
+					/>
+				</div>
+				<button className="btn btn-default" onClick={() => this.generate()}>Add tests</button>
+			</div>
+		);
 	}
 
 	render() {
+		const numExpected = this.props.inputs.count((testInput) => testInput.expected !== undefined);
+		const numPassing = this.props.inputs.count((testInput) => testInput.expected === this.accepts(testInput.input));
+
 		return (
 			<div className="TestInputEditor">
 				<button className="btn btn-default" onClick={() => this.add()}>Add</button>
 				<button className="btn btn-default" onClick={() => this.clear()}>Clear</button>
+				<button
+					className={"btn btn-default" + (this.state.bulk === 'import' ? " active" : "")}
+					onClick={() => this.setState({bulk: this.state.bulk === 'import' ? null : 'import'})}
+				>
+					Import
+				</button>
+				<button
+					className={"btn btn-default" + (this.state.bulk === 'export' ? " active" : "")}
+					onClick={() => this.setState({bulk: this.state.bulk === 'export' ? null : 'export'})}
+				>
+					Export
+				</button>
+				<button
+					className={"btn btn-default" + (this.state.bulk === 'generate' ? " active" : "")}
+					onClick={() => this.setState({bulk: this.state.bulk === 'generate' ? null : 'generate'})}
+				>
+					Generate
+				</button>
+				{numExpected > 0 ? (
+					<span className={"test-summary " + (numPassing === numExpected ? "pass" : "fail")}>
+						{numPassing}/{numExpected} passing
+					</span>
+				) : null}
+				{this.renderCoverage()}
+				{this.state.bulk === 'generate' ? this.renderGenerate() : this.state.bulk ? this.renderBulk() : null}
 				<div className="input-box">
 					<table className="table">
 						<tbody>
-							{this.state.inputs.map((input, index) => {
-								const accepts = this.props.nfa.accepts(input);
+							{this.props.inputs.map((testInput, index) => {
+								const accepts = this.accepts(testInput.input);
+								const expanded = this.state.expanded.has(testInput.input);
+								// Explanations are only found when shown
+								const description = expanded || this.state.hovered === testInput.input
+									? this.describe(testInput.input, this.explain(testInput.input)) : "";
+								const className = testInput.expected === undefined ? ""
+									: testInput.expected === accepts ? "success" : "danger";
 								return (
-									<tr key={index}>
-										<td>
-											<span
-												className={"test-input-result glyphicon glyphicon-" + (accepts ? "ok" : "remove")
-													+ (accepts ? " accept" : " reject")}
-												title={accepts ? "Accepted" : "Rejected"}
-											/>
-										</td>
-										<td>
-											<input
-												type="text"
-												className="form-control"
-												value={input}
-												onChange={(e) => this.set(index, e.target.value)}
-											/>
-										</td>
-										<td>
-											<button className="btn btn-default" onClick={() => this.props.runOnInput(input)}>Visualize</button>
-										</td>
-									</tr>
+									<React.Fragment key={index}>
+										<tr className={className}>
+											<td>
+												<span
+													className={"test-input-result glyphicon glyphicon-" + (accepts ? "ok" : "remove")
+														+ (accepts ? " accept" : " reject")}
+													title={description + " Click to " + (expanded ? "hide" : "show") + " this explanation."}
+													onClick={() => this.toggleExpanded(testInput.input)}
+													onMouseEnter={() => this.setState({hovered: testInput.input})}
+													onMouseLeave={() => this.setState({hovered: null})}
+												/>
+											</td>
+											<td>
+												<input
+													type="text"
+													className="form-control test-input-label"
+													placeholder="Label"
+													value={testInput.label || ""}
+													onChange={(e) => this.set(index, {label: e.target.value || undefined})}
+												/>
+												<input
+													type="text"
+													className="form-control"
+													value={testInput.input}
+													onChange={(e) => this.set(index, {input: e.target.value})}
+												/>
+											</td>
+											<td>
+												<select
+													className="form-control"
+													value={testInput.expected === undefined ? "" : testInput.expected ? "accept" : "reject"}
+													title={"Expected outcome"}
+													onChange={(e) => this.set(index, {
+														expected: e.target.value ? e.target.value === "accept" : undefined,
+													})}
+												>
+													<option value="">No expectation</option>
+													<option value="accept">Expect accept</option>
+													<option value="reject">Expect reject</option>
+												</select>
+											</td>
+											<td>
+												<button className="btn btn-default" onClick={() => this.props.runOnInput(testInput.input)}>Visualize</button>
+											</td>
+										</tr>
+										{expanded ? (
+											<tr className={"test-input-explanation " + className}>
+												<td/>
+												<td colSpan={3}>{description}</td>
+											</tr>
+										) : null}
+									</React.Fragment>
 								);
 							})}
 						</tbody>
@@ -79,4 +436,4 @@ export default class TestInputEditor extends React.PureComponent<IProps, IState>
 			</div>
 		);
 	}
-}
\ No newline at end of file
+}
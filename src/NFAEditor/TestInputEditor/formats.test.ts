@@ -0,0 +1,35 @@
+import {formatTests, parseTests, testFormats, testsFromJSON} from './formats';
+import {ITestInput} from './TestInputEditor';
+
+// In the order in which the sections format writes them
+const tests: ITestInput[] = [
+	{expected: undefined, input: "a,\"b\" c"},
+	{expected: true, input: "ab"},
+	{expected: false, input: "", label: "Empty, rejected"},
+];
+
+describe('formatTests() and parseTests()', () => {
+	it('round-trip in every format', () => {
+		for (const [format] of testFormats) {
+			const parsed = parseTests(formatTests(tests, format), format);
+			expect(parsed.map(({input}) => input)).toEqual(tests.map(({input}) => input));
+			if (format !== 'lines') {
+				expect(parsed.map(({expected}) => expected)).toEqual(tests.map(({expected}) => expected));
+			}
+		}
+		expect(parseTests(formatTests(tests, 'csv'), 'csv')).toEqual(tests);
+	});
+
+	it('reports the line of an invalid expected outcome', () => {
+		expect(() => parseTests("input,expected\na,maybe\n", 'csv')).toThrow("line 2");
+	});
+});
+
+describe('testsFromJSON()', () => {
+	it('rejects invalid test inputs', () => {
+		expect(testsFromJSON([{expected: true, input: "a"}])).toEqual([{expected: true, input: "a", label: undefined}]);
+		expect(() => testsFromJSON({})).toThrow();
+		expect(() => testsFromJSON([{input: 1}])).toThrow();
+		expect(() => testsFromJSON([{expected: "yes", input: "a"}])).toThrow();
+	});
+});
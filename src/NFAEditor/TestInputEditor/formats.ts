@@ -0,0 +1,132 @@
+import {escapeString, unescapeString} from '../../Core/SymbolGroup';
+import {readCSV, writeCSV} from '../../Util/csv';
+
+import {ITestInput} from './TestInputEditor';
+
+/**
+ * Plain-text formats for lists of test inputs:
+ * - lines: one input per line.
+ * - csv: one "input,expected" record per input, optionally followed by ",label".
+ *   expected is accept or reject (or blank for no expected outcome). Fields are quoted as in spreadsheets' CSV.
+ * - sections: "accept:" and "reject:" headers, each followed by the inputs expected to have that outcome.
+ *   Any inputs before the first header have no expected outcome.
+ * Inputs are written using the same special codes as symbol groups (see escapeString()), so the empty string is ε.
+ * Blank lines are ignored.
+ */
+export type TestFormat = 'lines' | 'csv' | 'sections';
+
+export const testFormats: Array<[TestFormat, string]> = [
+	['lines', "One input per line"],
+	['csv', "CSV (input,expected)"],
+	['sections', "accept:/reject: sections"],
+];
+
+const _expectedValues: {[value: string]: boolean} = {
+	"0": false,
+	"1": true,
+	"accept": true,
+	"false": false,
+	"no": false,
+	"reject": false,
+	"true": true,
+	"yes": true,
+};
+
+/**
+ * Read the test inputs saved alongside an NFA in its JSON export (an array of ITestInput objects).
+ * @throws An Error if the value is not a valid array of test inputs.
+ */
+export function testsFromJSON(value: unknown): ITestInput[] {
+	if (!Array.isArray(value)) {
+		throw new Error("The test inputs must be an array.");
+	}
+	return value.map((test: unknown, index) => {
+		if (typeof test !== 'object' || test === null) {
+			throw new Error("Test input " + (index + 1) + " is not an object.");
+		}
+		const {expected, input, label} = test as {[key: string]: unknown};
+		if (typeof input !== 'string') {
+			throw new Error("Test input " + (index + 1) + " has no input string.");
+		}
+		if (expected !== undefined && expected !== null && typeof expected !== 'boolean') {
+			throw new Error("Test input " + (index + 1) + " has an invalid expected outcome.");
+		}
+		if (label !== undefined && label !== null && typeof label !== 'string') {
+			throw new Error("Test input " + (index + 1) + " has an invalid label.");
+		}
+		return {
+			expected: typeof expected === 'boolean' ? expected : undefined,
+			input,
+			label: typeof label === 'string' && label ? label : undefined,
+		};
+	});
+}
+
+/**
+ * Write test inputs in the given format.
+ */
+export function formatTests(tests: Iterable<ITestInput>, format: TestFormat): string {
+	const lines = [] as string[];
+	if (format === 'lines') {
+		for (const test of tests) {
+			lines.push(escapeString(test.input));
+		}
+	} else if (format === 'csv') {
+		const records = [["input", "expected"]];
+		for (const test of tests) {
+			const expected = test.expected === undefined ? "" : test.expected ? "accept" : "reject";
+			records.push([escapeString(test.input), expected, ...(test.label ? [escapeString(test.label)] : [])]);
+		}
+		return writeCSV(records);
+	} else {
+		const sections = [[], [], []] as string[][]; // No expected outcome, accept, reject
+		for (const test of tests) {
+			sections[test.expected === undefined ? 0 : test.expected ? 1 : 2].push(escapeString(test.input, ":"));
+		}
+		lines.push(...sections[0], "accept:", ...sections[1], "reject:", ...sections[2]);
+	}
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Read test inputs in the given format.
+ * @throws An Error (mentioning the line number) if the text is invalid.
+ */
+export function parseTests(text: string, format: TestFormat): ITestInput[] {
+	const tests = [] as ITestInput[];
+	if (format === 'csv') {
+		readCSV(text).forEach(([[input, value = "", label = ""], line], index) => {
+			const key = value.trim().toLowerCase();
+			if (index === 0 && input.trim().toLowerCase() === "input" && key === "expected") {
+				// Header
+				return;
+			}
+			if (key !== "" && _expectedValues[key] === undefined) {
+				throw new Error("Invalid expected outcome \"" + value + "\" on line " + line + ".");
+			}
+			tests.push({
+				expected: key === "" ? undefined : _expectedValues[key],
+				input: unescapeString(input),
+				label: label.trim() ? unescapeString(label.trim()) : undefined,
+			});
+		});
+		return tests;
+	}
+	let expected: boolean | undefined;
+	text.split(/\r?\n/).forEach((line) => {
+		if (line.trim() === "") {
+			return;
+		}
+		if (format === 'lines') {
+			tests.push({input: unescapeString(line)});
+		} else {
+			const header = line.trim().toLowerCase();
+			if (header === "accept:" || header === "reject:") {
+				expected = header === "accept:";
+				return;
+			}
+			tests.push({expected, input: unescapeString(line)});
+		}
+	});
+	return tests;
+}
@@ -1,28 +1,76 @@
-import {Map} from 'immutable';
+import {Map, Set} from 'immutable';
 import * as React from 'react';
 
 import {Vector, perpendicularOffset, quadraticCurveAt} from '../../Util/math';
 import {shareAny} from '../../Util/sets';
 
-import NFA, {State} from '../../Core/RunnableNFA';
+import NFA, {ICoverage, Position, State} from '../../Core/RunnableNFA';
 
 import LabelledArrow from './LabelledArrow';
 import VisualState from './VisualState/VisualState';
 
 import './VisualEditor.css';
 
+// Classes which highlight the current simulation, breakpoints or test coverage, rather than the automaton itself
+const _highlightClasses = ["current", "followed", "just-followed", "breakpoint", "uncovered"];
+
+// Style properties which are copied into exported diagrams
+const _exportedStyles = [
+	"fill", "fill-opacity", "stroke", "stroke-width", "stroke-dasharray", "stroke-opacity", "opacity",
+	"font-family", "font-size", "font-weight",
+];
+
+// The size of the area in which states are laid out
+const _width = 820;
+const _height = 650;
+
+/**
+ * Give positions to the states of an NFA which don't have one yet, so that the visual editor (and exports) can draw
+ * them. If the NFA replaces another with none of the same states, they are arranged in a circle around the center of
+ * the editor; otherwise, they are states which were added, so they are put in the center.
+ * @param previous The NFA which this one replaces, if any.
+ */
+export function layOut<T extends NFA>(nfa: T, previous?: NFA): T {
+	const unplaced = nfa.states.filter((state) => !nfa.positions.has(state));
+	if (unplaced.size === 0) {
+		return nfa;
+	}
+	if (previous && shareAny([previous.states, nfa.states])) {
+		return nfa.setPositions(Map(unplaced.map((state) => [state, [_width / 2, _height / 2]] as [State, Position])));
+	}
+
+	const positions = Map<State, Position>().asMutable();
+	let angle = Math.PI; // The angle at which the next state should be placed
+	const offset = Math.min(_width, _height) * 0.3; // The distance each state should start from the centre
+	const direction = -1; // -1 for clockwise, 1 for anticlockwise
+	for (const state of nfa.states) {
+		if (!nfa.positions.has(state)) {
+			positions.set(state, [
+				Math.round(_width * 0.5 + Math.cos(angle) * offset),
+				Math.round(_height * 0.5 - Math.sin(angle) * offset),
+			]);
+		}
+		angle += Math.PI * 2 / nfa.numStates * direction;
+	}
+	return nfa.setPositions(positions);
+}
+
 interface IProps {
 	nfa: NFA,
+	breakpoints: Set<State>,
 	confirmRemoveState: (state: State) => any,
 	confirmRemoveTransition: (origin: State, target: State) => any,
+	coverage: ICoverage | null, // If provided, states and transitions which it doesn't cover are highlighted
 	promptAddTransition: (origin: State, target: State) => any,
 	promptEditState: (state: State) => any,
 	promptUpdateTransitionSymbols: (origin: State, target: State) => any,
+	setPositions: (positions: Map<State, Position>) => any, // Called when a state has been dragged
 	setStart: (state: State) => any,
 	toggleAccept: (state: State) => any,
+	toggleBreakpoint: (state: State) => any,
 };
 interface IState {
-	positions: Map<State, Vector>,
+	positions: Map<State, Vector>, // The positions of states while they are being dragged (until they are dropped)
 	cursorPos: Vector,
 	draggingState: State,
 	drawingTransitionOrigin: State,
@@ -31,8 +79,8 @@ interface IState {
 };
 
 class VisualEditor extends React.PureComponent<IProps, IState> {
-	width: number = 820;
-	height: number = 650;
+	width: number = _width;
+	height: number = _height;
 	DEFAULT_POS: Vector;
 	STATE_RADIUS: number = 50;
 	NAME_SIZE: number = 14;
@@ -56,31 +104,6 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 		this.svg = React.createRef();
 	}
 
-	componentDidMount() {
-		this.resetPositions();
-	}
-
-	componentWillReceiveProps(nextProps: IProps) {
-		if (this.props.nfa.states === nextProps.nfa.states) {
-			return;
-		}
-		if (!shareAny([this.state.positions.keys(), nextProps.nfa.states])) {
-			this.resetPositions(nextProps.nfa);
-		} else {
-			// Check if any states have been added
-			for (const state of nextProps.nfa.states) {
-				if (!this.state.positions.has(state)) {
-					// Put them in the center of the editor by default
-					this.setState((prevState) => {
-						return {
-							positions: prevState.positions.set(state, this.DEFAULT_POS)
-						};
-					});
-				}
-			}
-		}
-	}
-
 	render() {
 		const nfa = this.props.nfa;
 		return (
@@ -103,6 +126,8 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 							<VisualState
 								nfa={nfa}
 								state={state}
+								breakpoint={this.props.breakpoints.has(state)}
+								uncovered={!!this.props.coverage && !this.props.coverage.states.has(state)}
 								radius={this.STATE_RADIUS}
 								onBeginDrawTransition={(e) => this.onBeginDrawTransition(e, state)}
 								onMouseDown={(e) => this.onMouseDownState(e, state)}
@@ -112,6 +137,7 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 								remove={() => this.props.confirmRemoveState(state)}
 								setStart={() => this.props.setStart(state)}
 								toggleAccept={() => {console.log(state); this.props.toggleAccept(state)}}
+								toggleBreakpoint={() => this.props.toggleBreakpoint(state)}
 							/>
 						</g>
 					))}
@@ -128,6 +154,7 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 		this.setState({
 			cursorPos,
 			draggingState: state,
+			positions: Map([[state, this.pos(state)]]),
 		});
 	}
 
@@ -158,7 +185,12 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 	 * Stop dragging a state.
 	 */
 	dragStateStop() {
-		this.setState({draggingState: 0});
+		const state = this.state.draggingState;
+		if (state) {
+			const pos = this.pos(state);
+			this.props.setPositions(Map([[state, [pos.x, pos.y] as Position]]));
+		}
+		this.setState({draggingState: 0, positions: Map()});
 	}
 
 	/**
@@ -323,27 +355,80 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 	}
 
 	/**
-	 * Set the positions of the states so that they are arranged in a circle around the center of the editor.
+	 * Get the diagram as a standalone SVG file, cropped to the states and transitions and with its styles inlined.
+	 * The editing buttons are left out, and the start state gets an arrow instead of a flag.
+	 * @param highlighting Whether to keep the highlighting of the simulation, breakpoints and test coverage.
 	 */
-	resetPositions(nfa?: NFA) {
-		this.setState((prevState, prevProps) => {
-			if (!nfa) {
-				nfa = prevProps.nfa;
+	toSVG(highlighting: boolean): string {
+		const copy = this.svg.current!.cloneNode(true) as SVGSVGElement;
+		if (!highlighting) {
+			for (const element of Array.from(copy.querySelectorAll("." + _highlightClasses.join(", .")))) {
+				element.classList.remove(..._highlightClasses);
 			}
-			const positions = Map<State, Vector>().asMutable(); // Stores the positions of each state
-			const numStates = nfa.numStates;
-
-			let angle = Math.PI; // The angle at which the next state should be placed
-			const offset = Math.min(this.width, this.height) * 0.3; // The distance each state should start from the centre
-			const direction = -1; // -1 for clockwise, 1 for anticlockwise
-
-			for (const state of nfa.states) {
-				const x = Math.round(this.width * 0.5 + Math.cos(angle) * offset);
-				const y = Math.round(this.height * 0.5 - Math.sin(angle) * offset);
-				positions.set(state, new Vector(x, y));
-				angle += Math.PI * 2 / numStates * direction;
-			}
-			return {positions: positions.asImmutable()};
+		}
+
+		const flag = copy.querySelector(".start-flag");
+		const start = flag && flag.closest(".VisualState");
+		if (start) {
+			const r = this.STATE_RADIUS;
+			const arrow = document.createElementNS("http://www.w3.org/2000/svg", "path");
+			arrow.setAttribute("d", "M " + (-r - 40) + " 0 H " + -r + " M " + (-r - 10) + " -6 L " + -r + " 0 L " + (-r - 10) + " 6");
+			arrow.setAttribute("fill", "none");
+			arrow.setAttribute("stroke", "black");
+			arrow.setAttribute("stroke-width", "3");
+			start.appendChild(arrow);
+		}
+		for (const foreignObject of Array.from(copy.querySelectorAll("foreignObject"))) {
+			foreignObject.remove();
+		}
+
+		// Put the copy in an invisible editor so that the same stylesheets apply to it, then inline its styles
+		const container = document.createElement("div");
+		container.className = "VisualEditor";
+		container.style.position = "absolute";
+		container.style.visibility = "hidden";
+		container.appendChild(copy);
+		document.body.appendChild(container);
+		for (const element of Array.from(copy.querySelectorAll("*"))) {
+			const style = window.getComputedStyle(element);
+			element.setAttribute("style", _exportedStyles
+				.filter((name) => style.getPropertyValue(name))
+				.map((name) => name + ": " + style.getPropertyValue(name))
+				.join("; "));
+		}
+		const box = copy.getBBox();
+		document.body.removeChild(container);
+
+		const margin = 10;
+		copy.removeAttribute("class");
+		copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+		copy.setAttribute("viewBox", [box.x - margin, box.y - margin, box.width + margin * 2, box.height + margin * 2].join(" "));
+		copy.setAttribute("width", String(Math.ceil(box.width + margin * 2)));
+		copy.setAttribute("height", String(Math.ceil(box.height + margin * 2)));
+		return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n" + new XMLSerializer().serializeToString(copy);
+	}
+
+	/**
+	 * Get the diagram as a PNG image, by rasterising the SVG file (see toSVG()).
+	 * @param highlighting Whether to keep the highlighting of the simulation, breakpoints and test coverage.
+	 * @param scale The number of pixels in the image for each unit of the diagram.
+	 */
+	toPNG(highlighting: boolean, scale: number): Promise<Blob> {
+		const svg = this.toSVG(highlighting);
+		return new Promise((resolve, reject) => {
+			const image = new Image();
+			image.onload = () => {
+				const canvas = document.createElement("canvas");
+				canvas.width = Math.ceil(image.width * scale);
+				canvas.height = Math.ceil(image.height * scale);
+				const context = canvas.getContext("2d")!;
+				context.fillStyle = "white";
+				context.fillRect(0, 0, canvas.width, canvas.height);
+				context.drawImage(image, 0, 0, canvas.width, canvas.height);
+				canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error("The image could not be created.")), "image/png");
+			};
+			image.onerror = () => reject(new Error("The image could not be created."));
+			image.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg);
 		});
 	}
 
@@ -362,13 +447,16 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 	}
 
 	/**
-	 * Get the position of a state, default (-1, -1).
+	 * Get the position of a state: where it is being dragged to, or its position in the NFA (see layOut()),
+	 * default the center of the editor.
 	 */
 	pos(state: State): Vector {
-		if (!this.state.positions.has(state)) {
-			return this.DEFAULT_POS;
+		const dragged = this.state.positions.get(state);
+		if (dragged) {
+			return dragged;
 		}
-		return this.state.positions.get(state) || new Vector(-1, -1);
+		const position = this.props.nfa.positions.get(state);
+		return position ? new Vector(...position) : this.DEFAULT_POS;
 	}
 
 	/**
@@ -402,6 +490,9 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 			if (nfa.justFollowed(origin, target)) {
 				className += " just-followed";
 			}
+			if (this.props.coverage && !this.props.coverage.transitions.has(origin + "-" + target)) {
+				className += " uncovered";
+			}
 			return className;
 		};
 
@@ -452,7 +543,7 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 						start={originPos}
 						control={control}
 						end={targetPos}
-						label={nfa.symbols(origin, target).toString(", ")}
+						label={nfa.symbols(origin, target).toString(", ", true)}
 						arrowHeadT={t}
 						onClickShaft={() => this.props.confirmRemoveTransition(origin, target)}
 						onClickLabel={() => this.props.promptUpdateTransitionSymbols(origin, target)}
@@ -503,7 +594,7 @@ class VisualEditor extends React.PureComponent<IProps, IState> {
 						start={start}
 						end={end}
 						radius={r}
-						label={nfa.symbols(state, state).toString(", ")}
+						label={nfa.symbols(state, state).toString(", ", true)}
 						onClickShaft={() => this.props.confirmRemoveTransition(state, state)}
 						onClickLabel={() => this.props.promptUpdateTransitionSymbols(state, state)}
 					/>
@@ -5,6 +5,7 @@ import './VisualState.css';
 interface IProps {
 	nfa: RunnableNFA,
 	state: State,
+	breakpoint: boolean,
 	radius: number,
 	onBeginDrawTransition: React.EventHandler<React.MouseEvent<HTMLElement>>,
 	onMouseDown: React.EventHandler<React.MouseEvent<SVGGElement>>,
@@ -14,6 +15,8 @@ interface IProps {
 	remove: () => any,
 	setStart: () => any,
 	toggleAccept: () => any,
+	toggleBreakpoint: () => any,
+	uncovered: boolean,
 };
 
 export default class VisualState extends React.PureComponent<IProps> {
@@ -30,6 +33,8 @@ export default class VisualState extends React.PureComponent<IProps> {
 					+ (nfa.isAccept(state) ? ' accept' : '')
 					+ (!nfa.generating(state) ? ' nongenerating' : '')
 					+ (nfa.isCurrentState(state) ? ' current' : '')
+					+ (this.props.breakpoint ? ' breakpoint' : '')
+					+ (this.props.uncovered ? ' uncovered' : '')
 				}
 				onDragStart={() => false}
 			>
@@ -38,9 +43,9 @@ export default class VisualState extends React.PureComponent<IProps> {
 					r={this.props.radius}
 				/>
 				<foreignObject
-					x={-0.5 * this.props.radius}
+					x={-this.props.radius}
 					y={-0.8 * this.props.radius}
-					width={this.props.radius}
+					width={this.props.radius * 2}
 					height={this.props.radius * 0.5}
 				>
 					<i
@@ -53,6 +58,11 @@ export default class VisualState extends React.PureComponent<IProps> {
 						title={!nfa.isStart(state) ? "Set as start" : undefined}
 						onClick={() => {if (!nfa.isStart(state)) { this.props.setStart(); } }}
 					/>
+					<i
+						className={"fa fa-hand-paper-o" + (!this.props.breakpoint ? " btn-edit" : " breakpoint-icon")}
+						title={this.props.breakpoint ? "Remove breakpoint" : "Add breakpoint (pause here while playing)"}
+						onClick={() => this.props.toggleBreakpoint()}
+					/>
 					<i
 						className="fa fa-remove btn-edit"
 						title="Delete"
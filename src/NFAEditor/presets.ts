@@ -28,7 +28,7 @@ const presets: IPreset[] = [
 		},
 		description: "Accepts strings that are an alternating sequence of b and a.",
 		examples: ["aba", "baba", "abababa"],
-		regex: "a?(ba)*b?",
+		regex: "a(ba)*b?|b(ab)*a?",
 	},
 	{
 		definition: {
@@ -58,7 +58,7 @@ const presets: IPreset[] = [
 		},
 		description: "Accepts strings that start with ab and end with ba.",
 		examples: ["aba", "abba", "abababa"],
-		regex: "a?(ba)*b?",
+		regex: "ab((a|b)*b)?a",
 	},
 ];
 
@@ -0,0 +1,12 @@
+import {readCSV, writeCSV} from './csv';
+
+describe('readCSV() and writeCSV()', () => {
+	it('round-trip fields with commas, quotes and line breaks', () => {
+		const records = [["a", "b,c", "say \"hi\""], ["line\nbreak", "", " spaced "]];
+		expect(readCSV(writeCSV(records)).map(([fields]) => fields)).toEqual(records);
+	});
+
+	it('skip blank lines and give the line on which each record starts', () => {
+		expect(readCSV("a,b\r\n\r\n\"multi\nline\",c\nd\n")).toEqual([[["a", "b"], 1], [["multi\nline", "c"], 3], [["d"], 5]]);
+	});
+});
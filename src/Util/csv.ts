@@ -0,0 +1,70 @@
+/**
+ * Read CSV as in RFC 4180 (and as written by spreadsheets): fields are separated by commas, and may be quoted,
+ * with "" for a double quote, so that they can contain commas, quotes and line breaks.
+ * Lines may end in \n or \r\n, and blank lines are skipped. Fields are not trimmed.
+ * @returns The fields of each record, with the line on which the record starts.
+ */
+export function readCSV(text: string): Array<[string[], number]> {
+	const records = [] as Array<[string[], number]>;
+	let fields = [] as string[];
+	let field = "";
+	let quoted = false; // Whether inside a quoted field
+	let hasQuotes = false; // Whether the record has any quoted fields (so it is not blank)
+	let line = 1;
+	let start = 1; // The line on which the record starts
+
+	const endRecord = () => {
+		fields.push(field);
+		if (hasQuotes || fields.length > 1 || field.trim() !== "") {
+			records.push([fields, start]);
+		}
+		fields = [];
+		field = "";
+		hasQuotes = false;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === "\"" && text[i + 1] === "\"") {
+				field += "\"";
+				i++;
+			} else if (char === "\"") {
+				quoted = false;
+			} else {
+				if (char === "\n") {
+					line++;
+				}
+				field += char;
+			}
+		} else if (char === "\"" && field.trim() === "") {
+			quoted = true;
+			hasQuotes = true;
+			field = "";
+		} else if (char === ",") {
+			fields.push(field);
+			field = "";
+		} else if (char === "\n" || (char === "\r" && text[i + 1] === "\n")) {
+			if (char === "\r") {
+				i++;
+			}
+			endRecord();
+			line++;
+			start = line;
+		} else {
+			field += char;
+		}
+	}
+	if (fields.length > 0 || field !== "" || hasQuotes) {
+		endRecord();
+	}
+	return records;
+}
+
+/**
+ * Write records as CSV (see readCSV()), quoting only the fields which need it.
+ */
+export function writeCSV(records: string[][]): string {
+	const field = (value: string) => /[,"\r\n]/.test(value) ? "\"" + value.replace(/"/g, "\"\"") + "\"" : value;
+	return records.map((record) => record.map(field).join(",")).join("\n") + "\n";
+}
@@ -24,4 +24,19 @@ function defaults<O extends {}, D extends {}>(opts: O, defs: D, overwrite: boole
 	return result;
 }
 
-export {defaults};
+/**
+ * download - Make the browser download a file.
+ *
+ * @param contents  The contents of the file.
+ * @param filename  The name to save it as.
+ */
+function download(contents: Blob | string, filename: string) {
+	const blob = typeof contents === 'string' ? new Blob([contents], {type: "text/plain"}) : contents;
+	const link = document.createElement("a");
+	link.href = URL.createObjectURL(blob);
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(link.href);
+}
+
+export {defaults, download};